@@ -1,11 +1,62 @@
-import { defineConfig, devices } from '@playwright/test';
+import { defineConfig, devices, Project } from '@playwright/test';
+import { getRequiredComponents, selectProjects } from './tests/helpers/readiness-checker';
+
+const projects: Project[] = [
+  {
+    name: 'chromium',
+    use: { ...devices['Desktop Chrome'] },
+  },
+  {
+    name: 'firefox',
+    use: { ...devices['Desktop Firefox'] },
+  },
+  {
+    name: 'webkit',
+    use: { ...devices['Desktop Safari'] },
+  },
+  {
+    name: 'Mobile Chrome',
+    use: { ...devices['Pixel 5'] },
+  },
+  {
+    name: 'Mobile Safari',
+    use: { ...devices['iPhone 12'] },
+  },
+  {
+    // Runs the validators against crafted page.setContent() fixtures; needs no frontend or backend
+    name: 'helper-unit',
+    testMatch: '**/helper-unit/**/*.spec.ts',
+    testIgnore: [],
+    // Services the global setup probes before running this project; projects without the list need all
+    metadata: { readiness: [] },
+    use: { ...devices['Desktop Chrome'] },
+  },
+  {
+    name: 'api',
+    testMatch: '**/api/**/*.spec.ts',
+    testIgnore: [],
+    metadata: { readiness: ['backend', 'canary'] },
+    use: { baseURL: process.env.THINKPAL_API_URL || 'http://127.0.0.1:5000' },
+  },
+];
+
+// The frontend dev server is only started when a selected project uses it, so
+// `--project=api` and `--project=helper-unit` run without a frontend checkout
+const needsFrontend = getRequiredComponents(selectProjects(projects)).includes('frontend');
 
 export default defineConfig({
   testDir: './tests',
+  // Starts the mock backend when THINKPAL_MOCK_BACKEND=1, then aborts early unless frontend and backend are ready
+  globalSetup: require.resolve('./tests/global-setup'),
+  // API contract specs only run in the browserless "api" project, helper self-tests in "helper-unit"
+  testIgnore: ['**/api/**', '**/helper-unit/**'],
   timeout: 30000,
   expect: {
     timeout: 5000,
   },
+  // Visual baselines live per project; CI never writes missing ones
+  snapshotPathTemplate: '{testDir}/visual/__screenshots__/{projectName}/{arg}{ext}',
+  updateSnapshots: process.env.CI ? 'none' : 'missing',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
@@ -14,6 +65,10 @@ export default defineConfig({
     ['html'],
     ['list'],
     ['json', { outputFile: 'test-results/results.json' }],
+    ['./tests/reporters/query-corpus-reporter.ts', { outputFile: 'test-results/query-corpus-summary.json' }],
+    ['./tests/reporters/cross-browser-diff-reporter.ts', { outputFile: 'test-results/cross-browser-diff.json' }],
+    // Must come after the json reporter: it archives results.json into quality-history/ for trends
+    ['./tests/reporters/quality-dashboard-reporter.ts', { outputFile: 'test-results/quality-dashboard.html', historyDir: 'quality-history' }],
   ],
   use: {
     baseURL: 'http://localhost:5173',
@@ -21,34 +76,14 @@ export default defineConfig({
     screenshot: 'only-on-failure',
     video: 'retain-on-failure',
   },
-  webServer: {
+  webServer: needsFrontend ? {
     command: 'npm run dev',
     port: 5173,
     timeout: 120 * 1000,
     reuseExistingServer: true,
-    cwd: '../gpttutor-frontend',
-  },
-  projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
-    {
-      name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
-    },
-    {
-      name: 'webkit',
-      use: { ...devices['Desktop Safari'] },
-    },
-    {
-      name: 'Mobile Chrome',
-      use: { ...devices['Pixel 5'] },
-    },
-    {
-      name: 'Mobile Safari',
-      use: { ...devices['iPhone 12'] },
-    },
-  ],
+    // Frontend checkout; CI checks it out inside the workspace and sets THINKPAL_FRONTEND_DIR
+    cwd: process.env.THINKPAL_FRONTEND_DIR || '../gpttutor-frontend',
+  } : undefined,
+  projects,
   outputDir: 'test-results/',
 }); 
\ No newline at end of file
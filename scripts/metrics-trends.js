@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+/**
+ * Prints latency and content trends from the metrics history written by the tests
+ * (tests/helpers/metrics-history.ts) and flags regressions of the latest run.
+ *
+ * Usage: node scripts/metrics-trends.js [--file metrics-history/metrics.jsonl]
+ *          [--threshold 0.2] [--baseline 5] [--query text] [--project name]
+ *
+ * A metric regresses when the latest run is worse than the average of the previous
+ * --baseline runs by more than --threshold (0.2 = 20%). Metrics the latest run did not
+ * record (a query or project it skipped) are marked stale and not compared. Names ending in "Ms" are
+ * latencies (higher is worse); all other metrics are content sizes (lower is worse).
+ * Exits with code 1 when any regression is found.
+ */
+const fs = require('fs');
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+function parseArgs(argv) {
+  const options = {
+    file: process.env.THINKPAL_METRICS_HISTORY || 'metrics-history/metrics.jsonl',
+    threshold: 0.2,
+    baseline: 5,
+    query: '',
+    project: ''
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i].replace(/^--/, '');
+    if (!(key in options)) {
+      throw new Error(`Unknown option ${argv[i]}`);
+    }
+    const value = argv[++i];
+    options[key] = typeof options[key] === 'number' ? Number(value) : value;
+  }
+  if (!(options.threshold > 0) || !(options.baseline >= 1)) {
+    throw new Error('--threshold must be > 0 and --baseline >= 1');
+  }
+  return options;
+}
+
+function readHistory(file) {
+  if (!fs.existsSync(file)) {
+    throw new Error(`No metrics history at ${file}. Run the UI tests first.`);
+  }
+  return fs.readFileSync(file, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap((line, index) => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        console.log(`⚠️ Skipping malformed line ${index + 1}`);
+        return [];
+      }
+    });
+}
+
+function sparkline(values) {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values
+    .map(value => SPARK_CHARS[max === min ? 3 : Math.round(((value - min) / (max - min)) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
+
+function average(values) {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+/**
+ * Series per query, project and metric: one value per run (averaged when a run recorded it twice),
+ * plus the run ids in chronological file order
+ */
+function buildSeries(records) {
+  const runOrder = [];
+  const series = new Map();
+
+  for (const record of records) {
+    if (!runOrder.includes(record.runId)) {
+      runOrder.push(record.runId);
+    }
+    for (const [metric, value] of Object.entries(record.metrics || {})) {
+      const key = JSON.stringify([record.query, record.project, metric]);
+      if (!series.has(key)) {
+        series.set(key, { query: record.query, project: record.project, metric, runs: new Map() });
+      }
+      const runs = series.get(key).runs;
+      runs.set(record.runId, [...(runs.get(record.runId) || []), value]);
+    }
+  }
+
+  return {
+    runOrder,
+    series: Array.from(series.values()).map(entry => {
+      // Keep the chronological run order of the file
+      const runIds = runOrder.filter(runId => entry.runs.has(runId));
+      return {
+        query: entry.query,
+        project: entry.project,
+        metric: entry.metric,
+        lastRunId: runIds[runIds.length - 1],
+        values: runIds.map(runId => average(entry.runs.get(runId)))
+      };
+    })
+  };
+}
+
+/**
+ * Compares the value from the latest run with the previous runs; a series without a value
+ * from the latest run is stale and never reported as a regression
+ */
+function analyze(entry, latestRunId, options) {
+  const latest = entry.values[entry.values.length - 1];
+  if (entry.lastRunId !== latestRunId) {
+    return { latest, baseline: undefined, delta: undefined, regression: false, stale: true };
+  }
+  const previous = entry.values.slice(0, -1).slice(-options.baseline);
+  if (previous.length === 0) {
+    return { latest, baseline: undefined, delta: undefined, regression: false, stale: false };
+  }
+  const baseline = average(previous);
+  const delta = baseline === 0 ? 0 : (latest - baseline) / baseline;
+  const worse = entry.metric.endsWith('Ms') ? delta : -delta;
+  return { latest, baseline, delta, regression: worse > options.threshold, stale: false };
+}
+
+function format(metric, value) {
+  if (value === undefined) {
+    return '–';
+  }
+  return metric.endsWith('Ms') ? `${Math.round(value)}ms` : `${Math.round(value)}`;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const records = readHistory(options.file).filter(record =>
+    (!options.query || record.query.toLowerCase().includes(options.query.toLowerCase())) &&
+    (!options.project || record.project === options.project));
+
+  if (records.length === 0) {
+    console.log('ℹ️ No metrics match the filters');
+    return 0;
+  }
+
+  const { runOrder, series } = buildSeries(records);
+  const latestRunId = runOrder[runOrder.length - 1];
+  console.log(`📈 Metrics trends: ${records.length} records from ${runOrder.length} runs (${options.file})`);
+  console.log(`   Regression threshold ${Math.round(options.threshold * 100)}% against the previous ${options.baseline} runs\n`);
+
+  const regressions = [];
+  let staleCount = 0;
+  let group = '';
+  for (const entry of series.sort((a, b) => a.query.localeCompare(b.query) || a.project.localeCompare(b.project) || a.metric.localeCompare(b.metric))) {
+    const heading = `${entry.query} [${entry.project}]`;
+    if (heading !== group) {
+      group = heading;
+      console.log(`🔎 ${heading}`);
+    }
+
+    const result = analyze(entry, latestRunId, options);
+    const delta = result.delta === undefined ? '' : `${result.delta >= 0 ? '+' : ''}${Math.round(result.delta * 100)}%`;
+    const marker = result.regression ? '❌' : result.stale ? '💤' : '  ';
+    const note = result.stale ? `stale, last seen in run ${entry.lastRunId}` : delta;
+    console.log(`  ${marker} ${entry.metric.padEnd(36)} ${sparkline(entry.values.slice(-10)).padEnd(10)} ` +
+      `latest ${format(entry.metric, result.latest).padStart(8)}  baseline ${format(entry.metric, result.baseline).padStart(8)}  ${note}`);
+    if (result.stale) {
+      staleCount++;
+    }
+    if (result.regression) {
+      regressions.push(`${heading} ${entry.metric}: ${format(entry.metric, result.latest)} vs ${format(entry.metric, result.baseline)} (${delta})`);
+    }
+  }
+
+  if (staleCount > 0) {
+    console.log(`\n💤 ${staleCount} metric(s) have no value from the latest run (${latestRunId}) and were not compared`);
+  }
+  if (regressions.length > 0) {
+    console.log(`\n❌ ${regressions.length} regression(s) in the latest run:`);
+    regressions.forEach(regression => console.log(`  - ${regression}`));
+    return 1;
+  }
+  console.log('\n✅ No regressions beyond the threshold');
+  return 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 2;
+}
@@ -0,0 +1,95 @@
+import { TestInfo } from '@playwright/test';
+import { test, expect } from './fixtures';
+import { loadSectionSchema } from './helpers/section-schema';
+import { waitForAnswerComplete } from './helpers/answer-waiter';
+import { TOOLTIP_SELECTOR } from './helpers/answer-parser';
+import {
+  A11yAuditResult,
+  auditAccessibility,
+  formatA11yReport,
+  groupViolationsByImpact,
+  loadA11yBaseline,
+  tabTo
+} from './helpers/a11y-audit';
+
+const A11Y_QUERY = 'How do I plan production under tariff uncertainty?';
+
+// Known issues of the current UI are subtracted; only new violations fail
+const knownViolations = loadA11yBaseline();
+
+async function attachA11yReport(testInfo: TestInfo, name: string, result: A11yAuditResult): Promise<string> {
+  const report = formatA11yReport(result);
+  await testInfo.attach(`a11y-${name}.txt`, { body: report, contentType: 'text/plain' });
+  await testInfo.attach(`a11y-${name}.json`, {
+    body: JSON.stringify({ ...result, byImpact: groupViolationsByImpact(result.violations) }, null, 2),
+    contentType: 'application/json'
+  });
+  console.log(report);
+  return report;
+}
+
+// Rule-based audit (tests/helpers/a11y-audit.ts) plus keyboard-only user flows
+test.describe('ThinkPal Accessibility', () => {
+  test('landing page should have no critical or serious violations', async ({ decisionCoach }, testInfo) => {
+    await decisionCoach.goto();
+
+    const result = await auditAccessibility(decisionCoach.page, { knownViolations });
+    const report = await attachA11yReport(testInfo, 'landing', result);
+
+    expect(result.blocking, report).toEqual([]);
+  });
+
+  test('rendered answer should have no critical or serious violations', async ({ decisionCoach }, testInfo) => {
+    await decisionCoach.goto();
+    await decisionCoach.askAndWait(A11Y_QUERY);
+
+    const result = await auditAccessibility(decisionCoach.page, { include: loadSectionSchema().answerContainer, knownViolations });
+    const report = await attachA11yReport(testInfo, 'answer', result);
+
+    expect(result.blocking, report).toEqual([]);
+  });
+
+  test('should ask a question using only the keyboard', async ({ page, decisionCoach }) => {
+    await decisionCoach.goto();
+
+    const presses = await tabTo(page, decisionCoach.queryInput);
+    expect(presses, 'textarea never received focus via Tab').toBeGreaterThan(0);
+    console.log(`⌨️ Textarea focused after ${presses} Tab presses`);
+
+    await page.keyboard.type(A11Y_QUERY);
+    await expect(decisionCoach.queryInput).toHaveValue(A11Y_QUERY);
+
+    await waitForAnswerComplete(page, {}, () => page.keyboard.press('Enter'));
+    await expect(decisionCoach.getSection('strategy')).toBeVisible();
+    console.log('✅ Query submitted with Enter');
+  });
+
+  test('should reach every tooltip term by keyboard', async ({ page, decisionCoach }) => {
+    await decisionCoach.goto();
+    await decisionCoach.askAndWait(A11Y_QUERY);
+
+    const terms = page.locator(loadSectionSchema().answerContainer).locator(TOOLTIP_SELECTOR);
+    const termCount = await terms.count();
+    test.skip(termCount === 0, 'Answer rendered no tooltip terms');
+
+    // Start from the textarea and walk forward through the answer
+    await decisionCoach.queryInput.focus();
+    const reached = new Set<string>();
+    for (let presses = 0; presses < termCount * 3 + 20 && reached.size < termCount; presses++) {
+      await page.keyboard.press('Tab');
+      const focused = await page.evaluate(selector => {
+        const active = document.activeElement;
+        const term = active ? active.closest(selector) : null;
+        return term ? (term as HTMLElement).innerText.trim() : null;
+      }, TOOLTIP_SELECTOR);
+      if (focused) {
+        reached.add(focused);
+      }
+    }
+
+    const allTerms = (await terms.allInnerTexts()).map(text => text.trim());
+    const unreachable = allTerms.filter(term => !reached.has(term));
+    console.log(`⌨️ Reached ${reached.size}/${termCount} tooltip terms by keyboard`);
+    expect(unreachable, 'tooltip terms not reachable with Tab').toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { validateAnswerPayload, validateErrorPayload, getQueryPath, getHealthPath } from '../helpers/api-contract';
+import { loadGoldenQueries } from '../helpers/golden-answers';
+import { MAX_QUERY_LENGTH } from '../mock-backend/server';
+
+// HTTP contract of the decision-coach backend, tested without a browser
+// Runs in the "api" project against THINKPAL_API_URL (the real backend or the mock stand-in)
+test.describe('Decision Coach API Contract', () => {
+  const queryPath = getQueryPath();
+
+  test('should respond to the health check', async ({ request }) => {
+    const response = await request.get(getHealthPath());
+    expect(response.status()).toBe(200);
+  });
+
+  for (const { id, query } of loadGoldenQueries()) {
+    test(`should return a complete answer payload: ${id}`, async ({ request }) => {
+      const startTime = Date.now();
+      const response = await request.post(queryPath, { data: { query } });
+      console.log(`📡 POST ${queryPath} "${query}" → ${response.status()} in ${Date.now() - startTime}ms`);
+
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toContain('application/json');
+
+      const body = await response.json();
+      const contract = validateAnswerPayload(body);
+      expect(contract.errors, 'answer payload contract violations').toEqual([]);
+      expect(body.query).toBe(query);
+    });
+  }
+
+  test('should reject a request without a query field', async ({ request }) => {
+    const response = await request.post(queryPath, { data: { question: 'How do I plan production?' } });
+    expect(response.status()).toBe(400);
+    expect(validateErrorPayload(await response.json()).errors).toEqual([]);
+  });
+
+  test('should reject an empty query', async ({ request }) => {
+    const response = await request.post(queryPath, { data: { query: '   ' } });
+    expect(response.status()).toBe(400);
+    expect(validateErrorPayload(await response.json()).errors).toEqual([]);
+  });
+
+  test('should reject a malformed JSON body', async ({ request }) => {
+    const response = await request.post(queryPath, {
+      headers: { 'Content-Type': 'application/json' },
+      data: '{"query": "unterminated'
+    });
+    expect(response.status()).toBe(400);
+    expect(validateErrorPayload(await response.json()).errors).toEqual([]);
+  });
+
+  test('should reject an oversized query', async ({ request }) => {
+    const response = await request.post(queryPath, { data: { query: 'tariff '.repeat(Math.ceil(MAX_QUERY_LENGTH / 7) + 1) } });
+    expect([400, 413]).toContain(response.status());
+    expect(validateErrorPayload(await response.json()).errors).toEqual([]);
+  });
+
+  test('should not answer queries sent with GET', async ({ request }) => {
+    const response = await request.get(`${queryPath}?query=tariffs`);
+    expect([404, 405]).toContain(response.status());
+  });
+});
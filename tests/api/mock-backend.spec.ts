@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import { startMockBackend, MockBackend, MAX_QUERY_LENGTH } from '../mock-backend/server';
+import { AnswerPayload } from '../mock-backend/types';
+
+// Exercises the local backend stand-in directly, without a browser or frontend
+test.describe('Mock Decision Coach Backend', () => {
+  let backend: MockBackend;
+
+  test.beforeAll(async () => {
+    backend = await startMockBackend({ port: 0 });
+  });
+
+  test.afterAll(async () => {
+    await backend.stop();
+  });
+
+  test('should report healthy on the root and health endpoints', async ({ request }) => {
+    for (const path of ['/', '/health']) {
+      const response = await request.get(`${backend.url}${path}`);
+      expect(response.status()).toBe(200);
+      expect((await response.json()).status).toBe('ok');
+    }
+  });
+
+  test('should serve the tariff fixture for the standard tariff query', async ({ request }) => {
+    const query = 'How do I plan production under tariff uncertainty?';
+    const response = await request.post(`${backend.url}/query`, { data: { query } });
+    expect(response.status()).toBe(200);
+
+    const body = await response.json() as AnswerPayload;
+    expect(body.query).toBe(query);
+    expect(body.answer.strategy.length).toBeGreaterThan(50);
+    expect(body.answer.reflection_prompts.length).toBeGreaterThan(0);
+    expect(body.answer.concepts.map(c => c.term)).toContain('Scenario Analysis');
+  });
+
+  test('should match queries by keyword and pattern regardless of formatting', async ({ request }) => {
+    const cases = [
+      { query: '  HOW should I approach   MARKET ENTRY strategy?', term: 'Entry Mode' },
+      { query: 'What are the risks of expanding internationally?', term: 'Currency Risk' },
+      { query: 'How do I optimize my supply chain under constraints?', term: 'Bottleneck' }
+    ];
+
+    for (const { query, term } of cases) {
+      const response = await request.post(`${backend.url}/api/query`, { data: { query } });
+      const body = await response.json() as AnswerPayload;
+      expect(body.answer.concepts.map(c => c.term)).toContain(term);
+    }
+  });
+
+  test('should fall back to the default fixture for unknown queries', async ({ request }) => {
+    const response = await request.post(`${backend.url}/query`, { data: { query: 'Should I repaint the office?' } });
+    expect(response.status()).toBe(200);
+
+    const body = await response.json() as AnswerPayload;
+    expect(body.answer.concepts.map(c => c.term)).toContain('Assumption Testing');
+  });
+
+  test('should reject missing, malformed and oversized queries', async ({ request }) => {
+    const missing = await request.post(`${backend.url}/query`, { data: {} });
+    expect(missing.status()).toBe(400);
+
+    const malformed = await request.post(`${backend.url}/query`, {
+      headers: { 'Content-Type': 'application/json' },
+      data: '{not json'
+    });
+    expect(malformed.status()).toBe(400);
+
+    const oversized = await request.post(`${backend.url}/query`, { data: { query: 'a'.repeat(MAX_QUERY_LENGTH + 1) } });
+    expect(oversized.status()).toBe(413);
+  });
+});
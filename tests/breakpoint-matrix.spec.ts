@@ -0,0 +1,32 @@
+import { test, expect } from './fixtures';
+import { holdMockAnswer } from './helpers/visual-regression';
+import { loadBreakpointConfig, runBreakpointChecks, formatBreakpointGrid } from './helpers/breakpoint-matrix';
+
+const config = loadBreakpointConfig();
+
+// Every layout and usability check at every size in tests/config/breakpoints.json
+// The answer comes from a mock fixture so each breakpoint renders the same content
+test.describe('ThinkPal Breakpoint Matrix', () => {
+  test.beforeEach(async ({}, testInfo) => {
+    test.skip(!!testInfo.project.use.isMobile, 'Emulated devices have a fixed viewport; the matrix runs on desktop projects');
+  });
+
+  for (const breakpoint of config.breakpoints) {
+    test(`breakpoint: ${breakpoint.name} (${breakpoint.width}x${breakpoint.height})`, async ({ page, decisionCoach }, testInfo) => {
+      await page.setViewportSize({ width: breakpoint.width, height: breakpoint.height });
+      await decisionCoach.goto();
+
+      const held = await holdMockAnswer(page);
+      held.release();
+      await decisionCoach.askAndWait('How do I plan production under tariff uncertainty?');
+
+      const result = await runBreakpointChecks(decisionCoach, breakpoint, config);
+      const grid = formatBreakpointGrid(result);
+      console.log(grid);
+      await testInfo.attach(`breakpoint-${breakpoint.name.toLowerCase().replace(/\s+/g, '-')}`, { body: grid, contentType: 'text/plain' });
+
+      const failed = result.checks.filter(check => !check.passed).map(check => `${check.check}: ${check.detail}`);
+      expect(failed, grid).toEqual([]);
+    });
+  }
+});
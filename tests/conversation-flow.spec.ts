@@ -0,0 +1,38 @@
+import { test, expect } from './fixtures';
+import {
+  checkCardTooltips,
+  checkConversationHistory,
+  getCardSelector,
+  loadConversationConfig,
+  runConversation,
+  serveMockConversation
+} from './helpers/conversation-flow';
+
+const config = loadConversationConfig();
+
+// Scripted multi-turn conversations from tests/config/conversation-flows.json, answered by the
+// mock fixtures. historyMode there states whether answers should stack up or replace each other
+test.describe('ThinkPal Conversation Flows', () => {
+  for (const flow of config.flows) {
+    test(`conversation: ${flow.name}`, async ({ page, decisionCoach }, testInfo) => {
+      const backend = await serveMockConversation(page);
+      await decisionCoach.goto();
+
+      const turns = await runConversation(decisionCoach, flow, backend, config);
+      await testInfo.attach('conversation-turns', {
+        body: JSON.stringify(turns.map(({ answer, ...turn }) => ({ ...turn, fixtureQuery: answer.query })), null, 2),
+        contentType: 'application/json'
+      });
+
+      const history = checkConversationHistory(turns, config.historyMode);
+      expect(history.errors, `History should follow "${config.historyMode}" mode`).toEqual([]);
+
+      // The oldest answer still on screen must keep working tooltips after later turns
+      const tooltips = await checkCardTooltips(page, getCardSelector(config), 0);
+      expect(tooltips.errors).toEqual([]);
+
+      await expect(decisionCoach.queryInput).toBeEnabled();
+      await expect(decisionCoach.askButton).toBeEnabled();
+    });
+  }
+});
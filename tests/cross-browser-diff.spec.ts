@@ -0,0 +1,32 @@
+import { test, expect } from './fixtures';
+import { serveMockConversation } from './helpers/conversation-flow';
+import {
+  CROSS_BROWSER_SNAPSHOT_ATTACHMENT,
+  captureBrowserSnapshot,
+  loadCrossBrowserConfig
+} from './helpers/cross-browser-diff';
+
+const config = loadCrossBrowserConfig();
+
+// Records what each browser project renders for the same mock answers; the cross-browser-diff
+// reporter compares the snapshots of all projects once the run ends. Disagreements between
+// browsers are reported, not failed, since this spec only sees its own project
+test.describe('ThinkPal Cross-Browser Snapshots', () => {
+  for (const query of config.queries) {
+    test(`snapshot: ${query}`, async ({ page, decisionCoach }, testInfo) => {
+      await serveMockConversation(page);
+      await decisionCoach.goto();
+      await decisionCoach.askAndWait(query);
+      await expect(decisionCoach.getSection('strategy')).toBeVisible();
+
+      const snapshot = await captureBrowserSnapshot(page, query, testInfo.project.name);
+      await testInfo.attach(CROSS_BROWSER_SNAPSHOT_ATTACHMENT, {
+        body: JSON.stringify(snapshot, null, 2),
+        contentType: 'application/json'
+      });
+
+      expect(snapshot.answer.missingSections).toEqual([]);
+      expect(snapshot.tooltips.length, 'answer should render tooltip terms').toBeGreaterThan(0);
+    });
+  }
+});
@@ -1,12 +1,23 @@
 
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from './fixtures';
 import { validateTooltips, validateAllSections } from './helpers/tooltip-checker';
 import { checkAppReadiness, waitForAppReady, validateAppInterface } from './helpers/readiness-checker';
 import { retryValidation, retryPageOperation } from './helpers/retry-helper';
+import { parseAnswerCard } from './helpers/answer-parser';
+import { getRequiredSections, checkContentRules, loadSectionSchema } from './helpers/section-schema';
+import { scoreAnswer, findLowQualitySections } from './helpers/quality-scorer';
+import { checkConceptConsistency, formatConceptConsistencyReport } from './helpers/concept-consistency';
+import { annotateQuality } from './helpers/quality-annotations';
+import { recordAnswerMetrics } from './helpers/metrics-history';
+import { scanRenderingHygiene, formatHygieneReport } from './helpers/rendering-hygiene';
+import { DEFAULT_ANSWER_WAIT_OPTIONS } from './helpers/answer-waiter';
+
+// Minimum weighted quality score (0-100) every answer section must reach
+const MIN_SECTION_QUALITY = 60;
 
 test.describe('ThinkPal Decision Coach UI Tests', () => {
-  test('should render all structured sections with meaningful content', async ({ page }) => {
+  test('should render all structured sections with meaningful content', async ({ page, decisionCoach }) => {
     console.log('🚀 Starting ThinkPal UI test...');
     
     // Step 1: Check app readiness with retry logic
@@ -22,8 +33,7 @@ test.describe('ThinkPal Decision Coach UI Tests', () => {
     
     // Step 2: Navigate to the site
     console.log('🌐 Navigating to ThinkPal application...');
-    await page.goto('/');
-    await page.waitForLoadState('networkidle');
+    await decisionCoach.goto();
     
     // Step 3: Validate app interface
     const interfaceResult = await validateAppInterface(page);
@@ -39,104 +49,115 @@ test.describe('ThinkPal Decision Coach UI Tests', () => {
     await retryPageOperation(
       page,
       async () => {
-        const queryInput = page.locator('textarea[placeholder*="Ask me anything"]').first();
-        await queryInput.fill(testQuery);
+        await decisionCoach.fillQuery(testQuery);
         return true;
       },
       'Query input'
     );
     
-    // Step 5: Submit query with retry logic
-    console.log('🔘 Clicking Ask button...');
-    await retryPageOperation(
-      page,
-      async () => {
-        const askButton = page.locator('button:has-text("Ask")').first();
-        await askButton.click();
-        return true;
-      },
-      'Ask button click'
-    );
-    
-    // Step 6: Wait for response with retry logic
-    console.log('⏳ Waiting for response...');
-    await retryPageOperation(
-      page,
-      async () => {
-        // Wait for any response content to appear
-        await page.waitForSelector('div:has-text("Strategic"), div:has-text("Story"), div:has-text("Reflection"), div:has-text("Concepts")', { timeout: 30000 });
-        await page.waitForTimeout(3000); // Additional wait for full rendering
-        return true;
-      },
-      'Response rendering'
-    );
+    // Step 5: Submit query and wait for the answer to complete
+    // Waits on the backend response, answer container, loading indicators and DOM quiescence instead of fixed sleeps
+    console.log('🔘 Clicking Ask button and waiting for response...');
+    const answerWait = await decisionCoach.submitAndWait();
+    console.log(`⏱️ Answer rendered in ${answerWait.totalMs}ms (last signal: ${answerWait.lastSignal})`);
     
-    // Step 7: Validate all sections with flexible selectors
+    // Step 6: Validate required sections against the section schema
     console.log('🔍 Validating response sections...');
-    const sections = [
-      { name: 'Strategic Thinking Lens', selector: 'div:has-text("Strategic Thinking Lens"), div:has-text("Strategic")' },
-      { name: 'Story in Action', selector: 'div:has-text("Story in Action"), div:has-text("Story")' },
-      { name: 'Reflection Prompts', selector: 'div:has-text("Reflection Prompts"), div:has-text("Reflection")' },
-      { name: 'Concepts Section', selector: 'div:has-text("Concepts"), div:has-text("Key Concepts")' }
-    ];
-    
-    for (const section of sections) {
+    // Recorded for the quality dashboard before any check can fail the test
+    const sectionValidation = await validateAllSections(page);
+    annotateQuality(test.info(), testQuery, { sections: sectionValidation.results });
+    
+    const requiredSections = getRequiredSections();
+    for (const section of requiredSections) {
       console.log(`🔍 Validating ${section.name}...`);
       
       // Check section visibility
-      const sectionElement = page.locator(section.selector).first();
+      const sectionElement = decisionCoach.getSection(section.id);
       await expect(sectionElement).toBeVisible();
       
-      // Get section text content
+      // Get section text content and apply the schema's content rules
       const sectionText = await sectionElement.innerText();
-      
-      // Validate no markdown artifacts remain
-      if (sectionText.includes('**') || sectionText.includes('__')) {
-        await page.screenshot({ path: `tests/artifacts/${section.name.toLowerCase().replace(/\s+/g, '-')}-markdown-artifacts.png` });
-        throw new Error(`${section.name} contains markdown artifacts: bold syntax found in "${sectionText.substring(0, 100)}..."`);
-      }
-      
-      if (sectionText.match(/\s*[-–—]+\s*$/)) {
-        await page.screenshot({ path: `tests/artifacts/${section.name.toLowerCase().replace(/\s+/g, '-')}-trailing-dashes.png` });
-        throw new Error(`${section.name} contains trailing dashes in "${sectionText.substring(0, 100)}..."`);
-      }
-      
-      // Special validation for Concepts section
-      if (section.name === 'Concepts Section') {
-        console.log('🔍 Validating Concepts format...');
-        const lines = sectionText.split('\n').filter(line => line.trim());
-        
-        if (lines.length === 0) {
-          await page.screenshot({ path: 'tests/artifacts/concepts-empty.png' });
-          throw new Error('Concepts section is empty');
-        }
-        
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          if (!line.match(/^.+:\s+.+/)) {
-            await page.screenshot({ path: 'tests/artifacts/concepts-format-invalid.png' });
-            throw new Error(`Concepts line ${i + 1} does not follow "Term: Definition" format: "${line}"`);
-          }
-          
-          const [term, definition] = line.split(':').map(part => part.trim());
-          if (!term || !definition) {
-            await page.screenshot({ path: 'tests/artifacts/concepts-empty-parts.png' });
-            throw new Error(`Concepts line ${i + 1} has empty term or definition: "${line}"`);
-          }
-        }
-        
-        console.log(`✅ Concepts section validated: ${lines.length} concepts found`);
+      const ruleErrors = checkContentRules(section, sectionText);
+      if (ruleErrors.length > 0) {
+        await page.screenshot({ path: `tests/artifacts/${section.id}-content-rules.png` });
+        throw new Error(`${section.name} ${ruleErrors.join('; ')} in "${sectionText.substring(0, 100)}..."`);
       }
       
       console.log(`✅ ${section.name} validated successfully`);
     }
     
-    // Step 8: Validate tooltips with retry logic (updated for v1.6)
+    // Scan the whole answer, not only the section texts, for markdown leftovers and other rendering artifacts
+    console.log('🔍 Scanning answer for rendering artifacts...');
+    const hygiene = await scanRenderingHygiene(page);
+    const hygieneReport = formatHygieneReport(hygiene);
+    await test.info().attach('rendering-hygiene', { body: hygieneReport, contentType: 'text/plain' });
+    
+    if (!hygiene.isValid) {
+      await page.screenshot({ path: 'tests/artifacts/rendering-artifacts.png' });
+      throw new Error(`Rendering artifacts in the answer:\n${hygieneReport}`);
+    }
+    
+    // Step 7: Parse the answer card and validate its structure
+    console.log('🧩 Parsing answer card...');
+    const answer = await parseAnswerCard(page);
+    
+    if (answer.missingSections.length > 0) {
+      await page.screenshot({ path: 'tests/artifacts/answer-sections-missing.png' });
+      throw new Error(`Answer card is missing sections: ${answer.missingSections.join(', ')}`);
+    }
+    
+    console.log('🔍 Validating Concepts format...');
+    if (answer.concepts.length === 0) {
+      await page.screenshot({ path: 'tests/artifacts/concepts-empty.png' });
+      throw new Error('Concepts section has no "Term: Definition" entries');
+    }
+    
+    const incompleteConcepts = answer.concepts.filter(concept => !concept.term || !concept.definition);
+    if (incompleteConcepts.length > 0) {
+      await page.screenshot({ path: 'tests/artifacts/concepts-empty-parts.png' });
+      throw new Error(`Concepts with empty term or definition: ${incompleteConcepts.map(c => `"${c.term}"`).join(', ')}`);
+    }
+    
+    console.log(`✅ Concepts section validated: ${answer.concepts.length} concepts found`);
+    
+    // Step 8: Score answer quality with offline heuristics
+    console.log('🔍 Scoring answer quality...');
+    const qualityReport = scoreAnswer(answer, testQuery);
+    annotateQuality(test.info(), testQuery, { quality: qualityReport });
+    await test.info().attach('answer-quality', { body: JSON.stringify(qualityReport, null, 2), contentType: 'application/json' });
+    
+    const lowQualitySections = findLowQualitySections(qualityReport, MIN_SECTION_QUALITY);
+    if (lowQualitySections.length > 0) {
+      await page.screenshot({ path: 'tests/artifacts/answer-quality-too-low.png' });
+      const details = lowQualitySections.map(section => `${section.sectionId} (${section.score}): ${section.reasons.join('; ')}`);
+      throw new Error(`Answer quality below ${MIN_SECTION_QUALITY}: ${details.join(' | ')}`);
+    }
+    
+    console.log(`✅ Answer quality: ${qualityReport.overall}/100 (${qualityReport.sections.map(s => `${s.sectionId} ${s.score}`).join(', ')})`);
+    
+    // Step 9: Check tooltipped terms against the Concepts section
+    console.log('🔍 Checking concept/tooltip consistency...');
+    const conceptConsistency = checkConceptConsistency(answer);
+    await test.info().attach('concept-consistency', { body: formatConceptConsistencyReport(conceptConsistency), contentType: 'text/plain' });
+    
+    if (!conceptConsistency.isValid) {
+      await page.screenshot({ path: 'tests/artifacts/concept-tooltip-mismatch.png' });
+      throw new Error(`Concept/tooltip mismatches: ${conceptConsistency.errors.join(', ')}`);
+    }
+    
+    // Step 10: Validate tooltips with retry logic (updated for v1.6)
     console.log('🔍 Validating tooltips...');
     const tooltipValidation = await retryValidation(
       () => validateTooltips(page),
       'Tooltip validation'
     );
+    annotateQuality(test.info(), testQuery, { tooltips: tooltipValidation });
+    recordAnswerMetrics(test.info(), testQuery, {
+      appResponseMs: readinessResult.responseTime,
+      wait: answerWait,
+      sections: sectionValidation.results,
+      tooltipCount: tooltipValidation.tooltipCount
+    });
     
     if (!tooltipValidation.isValid) {
       await page.screenshot({ path: 'tests/artifacts/tooltip-validation-failed.png' });
@@ -145,19 +166,7 @@ test.describe('ThinkPal Decision Coach UI Tests', () => {
       throw new Error(`Tooltip validation failed: ${tooltipValidation.errors.join(', ')}`);
     }
     
-    // Step 9: Additional validation for questions pattern
-    console.log('🔍 Validating question patterns...');
-    const questionsSection = page.locator('div:has-text("Reflection Prompts"), div:has-text("Reflection")').first();
-    if (await questionsSection.isVisible()) {
-      const questionsContent = await questionsSection.innerText();
-      const questionPattern = /(How|What)\s+[^.!?]*[.!?]/;
-      if (!questionPattern.test(questionsContent || '')) {
-        await page.screenshot({ path: 'tests/artifacts/questions-pattern-failed.png' });
-        throw new Error('No questions starting with "How" or "What" found in Reflection Prompts');
-      }
-    }
-    
-    // Step 10: Final validation and reporting
+    // Step 11: Final validation and reporting
     const fullResponse = await page.locator('body').textContent();
     if (!fullResponse || fullResponse.length < 500) {
       await page.screenshot({ path: 'tests/artifacts/response-too-short.png' });
@@ -168,77 +177,14 @@ test.describe('ThinkPal Decision Coach UI Tests', () => {
     console.log('✅ All validations passed successfully!');
     console.log(`📊 Response length: ${fullResponse.length} characters`);
     console.log(`🔍 Tooltips found: ${tooltipValidation.tooltipCount} (${tooltipValidation.validTooltips} valid)`);
-    console.log(`📋 Sections validated: ${sections.length}`);
+    console.log(`📋 Sections validated: ${requiredSections.length}`);
+    console.log(`🧩 Concepts: ${answer.concepts.length}, reflection prompts: ${answer.reflectionPrompts.length}`);
     
     // Save success screenshot
     await page.screenshot({ path: 'tests/artifacts/test-success.png' });
   });
 
-  test('should handle different query types', async ({ page }) => {
-    console.log('🧪 Testing multiple query types...');
-    
-    // Check app readiness
-    const readinessResult = await retryValidation(
-      () => checkAppReadiness(page),
-      'App readiness check for query types'
-    );
-    
-    if (!readinessResult.isReady) {
-      await page.screenshot({ path: 'tests/artifacts/app-not-ready-query-types.png' });
-      throw new Error(`ThinkPal application is not ready: ${readinessResult.error}`);
-    }
-    
-    await page.goto('/');
-    await page.waitForLoadState('networkidle');
-    
-    const testQueries = [
-      'How should I approach market entry strategy?',
-      'What are the risks of expanding internationally?',
-      'How do I optimize my supply chain under constraints?'
-    ];
-    
-    for (const query of testQueries) {
-      console.log(`🧪 Testing query: "${query}"`);
-      
-      // Clear any existing input
-      const queryInput = page.locator('textarea[placeholder*="Ask me anything"]').first();
-      await queryInput.clear();
-      await queryInput.fill(query);
-      
-      const askButton = page.locator('button:has-text("Ask")').first();
-      await askButton.click();
-      
-      // Wait for response
-      await page.waitForTimeout(5000);
-      
-      // Verify response sections exist with flexible selectors
-      const sections = [
-        { name: 'Strategic Thinking Lens', selector: 'div:has-text("Strategic Thinking Lens"), div:has-text("Strategic")' },
-        { name: 'Story in Action', selector: 'div:has-text("Story in Action"), div:has-text("Story")' },
-        { name: 'Reflection Prompts', selector: 'div:has-text("Reflection Prompts"), div:has-text("Reflection")' },
-        { name: 'Concepts Section', selector: 'div:has-text("Concepts"), div:has-text("Key Concepts")' }
-      ];
-      
-      for (const section of sections) {
-        const sectionElement = page.locator(section.selector).first();
-        if (!(await sectionElement.isVisible())) {
-          await page.screenshot({ path: `tests/artifacts/${section.name.toLowerCase().replace(/\s+/g, '-')}-section-missing.png` });
-          throw new Error(`${section.name} section not found for query: "${query}"`);
-        }
-        
-        // Validate no markdown artifacts
-        const sectionText = await sectionElement.innerText();
-        if (sectionText.includes('**') || sectionText.includes('__')) {
-          await page.screenshot({ path: `tests/artifacts/${section.name.toLowerCase().replace(/\s+/g, '-')}-markdown-artifacts.png` });
-          throw new Error(`${section.name} contains markdown artifacts for query "${query}": bold syntax found`);
-        }
-      }
-      
-      console.log(`✅ Query "${query}" processed successfully`);
-    }
-  });
-
-  test('should handle error states gracefully', async ({ page }) => {
+  test('should handle error states gracefully', async ({ page, decisionCoach }) => {
     console.log('🧪 Testing error state handling...');
     
     // Check app readiness
@@ -252,25 +198,20 @@ test.describe('ThinkPal Decision Coach UI Tests', () => {
       throw new Error(`ThinkPal application is not ready: ${readinessResult.error}`);
     }
     
-    await page.goto('/');
-    await page.waitForLoadState('networkidle');
-    
-    // Test with empty query
-    const askButton = page.locator('button:has-text("Ask")').first();
-    await askButton.click();
+    await decisionCoach.goto();
     
-    // Should either show validation message or not proceed
-    await page.waitForTimeout(2000);
+    // Test with empty query: should either show a validation message or not proceed
+    await decisionCoach.submit();
     
     // Verify page doesn't crash and still allows new input
-    const queryInput = page.locator('textarea[placeholder*="Ask me anything"]').first();
+    const queryInput = decisionCoach.queryInput;
     await expect(queryInput).toBeVisible();
     await expect(queryInput).toBeEnabled();
     
-    // Test with very short query
-    await queryInput.fill('a');
-    await askButton.click();
-    await page.waitForTimeout(2000);
+    // Test with very short query: either an answer or an error message is a graceful outcome
+    await decisionCoach.askQuery('a');
+    const answerContainer = page.locator(loadSectionSchema().answerContainer);
+    await expect(answerContainer.or(decisionCoach.errorMessage).first()).toBeVisible({ timeout: DEFAULT_ANSWER_WAIT_OPTIONS.timeoutMs });
     
     // Verify page still functions
     await expect(queryInput).toBeVisible();
@@ -1,11 +1,11 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from './fixtures';
+import { MAIN_WRAPPER_SELECTORS } from './pages/decision-coach-page';
 
-test('diagnostic - inspect frontend elements', async ({ page }) => {
+test('diagnostic - inspect frontend elements', async ({ page, decisionCoach }) => {
   console.log('🔍 Starting diagnostic test...');
   
   // Navigate to the frontend
-  await page.goto('/');
-  await page.waitForLoadState('networkidle');
+  await decisionCoach.goto();
   
   console.log('✅ Page loaded successfully');
   
@@ -65,6 +65,18 @@ test('diagnostic - inspect frontend elements', async ({ page }) => {
     console.log(`  Element ${i + 1}: <${tagName}> data-testid="${dataTestId}", text="${text?.substring(0, 50).trim()}..."`);
   }
   
+  // Report which layout wrapper selectors match
+  for (const selector of MAIN_WRAPPER_SELECTORS) {
+    const count = await page.locator(selector).count();
+    console.log(`🧱 Wrapper selector "${selector}": ${count} match(es)`);
+  }
+  const wrapper = await decisionCoach.getMainWrapper();
+  console.log(`🧱 Main wrapper resolved to: ${wrapper.selector}`);
+  
+  // Report whether the page object can find the query controls
+  console.log(`📝 Query input visible: ${await decisionCoach.queryInput.isVisible()}`);
+  console.log(`🔘 Ask button visible: ${await decisionCoach.askButton.isVisible()}`);
+  
   // Get page HTML for inspection
   const html = await page.content();
   console.log(`📄 Page HTML length: ${html.length} characters`);
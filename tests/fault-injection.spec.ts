@@ -0,0 +1,76 @@
+import { test, expect } from './fixtures';
+import { injectBackendFault, FaultKind, FAULT_DESCRIPTIONS, NON_FAILING_FAULTS, DEFAULT_FAULT_DELAYS } from './helpers/fault-injection';
+import { DEFAULT_ANSWER_WAIT_OPTIONS } from './helpers/answer-waiter';
+
+const FAULT_QUERY = 'How should I prepare my supply chain for tariff uncertainty?';
+
+const FAULT_KINDS = (Object.keys(FAULT_DESCRIPTIONS) as FaultKind[]).filter(kind => !NON_FAILING_FAULTS.includes(kind));
+
+// Each backend failure mode must leave the user with a visible error and a working form
+// The fault is injected once, so the retry reaches the real (or mock) backend
+test.describe('ThinkPal Backend Fault Handling', () => {
+  for (const kind of FAULT_KINDS) {
+    test(`should recover from ${kind}: ${FAULT_DESCRIPTIONS[kind]}`, async ({ page, decisionCoach }) => {
+      const delayMs = DEFAULT_FAULT_DELAYS[kind] || 0;
+      // Delayed faults hold the request for a while before failing
+      test.slow(delayMs > 0, `${kind} holds the request for ${delayMs}ms`);
+      console.log(`🧪 Testing fault: ${kind}`);
+
+      await decisionCoach.goto();
+      const fault = await injectBackendFault(page, kind);
+
+      await decisionCoach.askQuery(FAULT_QUERY);
+
+      if (delayMs > 0) {
+        // While the request hangs: a loading indicator and no answer yet
+        await expect.poll(() => fault.hits, { message: 'fault was never triggered' }).toBe(1);
+        await expect(page.locator(DEFAULT_ANSWER_WAIT_OPTIONS.loadingSelector).first(), 'no loading state while waiting').toBeVisible();
+        await expect(decisionCoach.getSection('strategy')).toBeHidden();
+      }
+
+      // User-facing error instead of a blank or half-rendered answer
+      await expect(decisionCoach.errorMessage, `no error message shown for ${kind}`).toBeVisible({ timeout: delayMs + 15000 });
+      expect(fault.hits, 'fault was never triggered').toBe(1);
+
+      // Form stays usable
+      await expect(decisionCoach.queryInput).toBeEnabled();
+      await expect(decisionCoach.queryInput).toBeEditable();
+      await expect(decisionCoach.askButton).toBeEnabled();
+
+      // Retry goes through to the backend and produces a full answer
+      await decisionCoach.submitAndWait();
+      await expect(decisionCoach.getSection('strategy')).toBeVisible();
+      await expect(decisionCoach.errorMessage).toBeHidden();
+
+      await fault.remove();
+      console.log(`✅ Recovered from ${kind}`);
+    });
+  }
+
+  test(`should show progress and then the answer for slow-response: ${FAULT_DESCRIPTIONS['slow-response']}`, async ({ page, decisionCoach }) => {
+    console.log('🧪 Testing fault: slow-response');
+
+    await decisionCoach.goto();
+    const fault = await injectBackendFault(page, 'slow-response', { delayMs: 8000 });
+
+    await decisionCoach.fillQuery(FAULT_QUERY);
+    const answer = decisionCoach.submitAndWait({ timeoutMs: 20000 });
+    // Awaited below; this only keeps a failure during the checks in between from being reported as unhandled
+    answer.catch(() => undefined);
+    await expect.poll(() => fault.hits, { message: 'fault was never triggered' }).toBe(1);
+
+    // While the backend is held: a loading indicator, no answer and no error
+    await expect(page.locator(DEFAULT_ANSWER_WAIT_OPTIONS.loadingSelector).first(), 'no loading state while waiting').toBeVisible();
+    await expect(decisionCoach.getSection('strategy')).toBeHidden();
+    await expect(decisionCoach.errorMessage).toBeHidden();
+
+    // Once the delayed response arrives the answer renders in full
+    await answer;
+    await expect(decisionCoach.getSection('strategy')).toBeVisible();
+    await expect(page.locator(DEFAULT_ANSWER_WAIT_OPTIONS.loadingSelector).first()).toBeHidden();
+    await expect(decisionCoach.errorMessage).toBeHidden();
+
+    await fault.remove();
+    console.log('✅ Answer arrived after the slow response');
+  });
+});
@@ -0,0 +1,21 @@
+import { test as base, expect as baseExpect } from '@playwright/test';
+import { DecisionCoachPage } from './pages/decision-coach-page';
+import { layoutMatchers } from './helpers/layout-geometry';
+
+export interface DecisionCoachFixtures {
+  decisionCoach: DecisionCoachPage;
+}
+
+/**
+ * Playwright test extended with ThinkPal page objects
+ */
+export const test = base.extend<DecisionCoachFixtures>({
+  decisionCoach: async ({ page }, use) => {
+    await use(new DecisionCoachPage(page));
+  }
+});
+
+/**
+ * Playwright expect extended with the layout geometry matchers
+ */
+export const expect = baseExpect.extend(layoutMatchers);
@@ -0,0 +1,54 @@
+import { FullConfig } from '@playwright/test';
+import mockBackendSetup, { getMockBackendPort } from './mock-backend/global-setup';
+import { DEFAULT_API_URL } from './helpers/api-contract';
+import {
+  formatReadinessReport,
+  getRequiredComponents,
+  runReadinessProbes,
+  selectProjects,
+  writeReadinessReport
+} from './helpers/readiness-checker';
+
+/**
+ * Starts the mock backend (when enabled), then probes frontend, backend and a canary query,
+ * as far as the selected projects need them (see `metadata.readiness` in playwright.config.ts)
+ * Aborts the whole run with the failing component instead of letting every test time out
+ * THINKPAL_SKIP_READINESS=1 skips the probes
+ */
+export default async function globalSetup(config: FullConfig): Promise<(() => Promise<void>) | undefined> {
+  // Workers inherit the environment, so every metrics record of this run shares the id
+  process.env.THINKPAL_RUN_ID = process.env.THINKPAL_RUN_ID || new Date().toISOString();
+
+  const teardown = await mockBackendSetup(config);
+  if (process.env.THINKPAL_SKIP_READINESS === '1') {
+    return teardown;
+  }
+
+  // Only probe what the selected projects use, e.g. an api-only run does not need the frontend
+  const projects = selectProjects(config.projects);
+  const components = getRequiredComponents(projects);
+  if (components.length === 0) {
+    console.log('⏭️ Selected projects need no running services, skipping readiness probes');
+    return teardown;
+  }
+
+  const frontendUrl = projects.find(project => getRequiredComponents([project]).includes('frontend'))?.use.baseURL;
+  if (components.includes('frontend') && !frontendUrl) {
+    throw new Error('No frontend baseURL configured for the readiness probes');
+  }
+  const backendUrl = process.env.THINKPAL_MOCK_BACKEND === '1'
+    ? `http://127.0.0.1:${getMockBackendPort()}`
+    : process.env.THINKPAL_API_URL || DEFAULT_API_URL;
+
+  console.log('🔍 Probing ThinkPal readiness...');
+  const report = await runReadinessProbes({ frontendUrl, backendUrl, components });
+  const reportPath = writeReadinessReport(report);
+  console.log(formatReadinessReport(report));
+  console.log(`📄 Readiness report: ${reportPath}`);
+
+  if (!report.isReady) {
+    await teardown?.();
+    throw new Error(`ThinkPal is not ready, aborting the run: ${report.reason}`);
+  }
+  return teardown;
+}
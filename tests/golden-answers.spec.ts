@@ -0,0 +1,59 @@
+import { test, expect } from './fixtures';
+import { parseAnswerCard } from './helpers/answer-parser';
+import {
+  loadGoldenQueries,
+  readGoldenSnapshot,
+  writeGoldenSnapshot,
+  diffAnswers,
+  formatAnswerDiff,
+  isGoldenUpdateMode,
+  getGoldenBackend
+} from './helpers/golden-answers';
+
+// Records the parsed answer for each curated query and flags semantic drift on later runs.
+// Snapshots are kept per backend (tests/golden/mock, tests/golden/live), so a mock run never
+// compares against live answers or the other way round
+// Re-record with: THINKPAL_UPDATE_GOLDEN=1 npx playwright test golden-answers.spec.ts --project=chromium
+test.describe('ThinkPal Golden Answer Regression', () => {
+  test.beforeEach(async ({}, testInfo) => {
+    // Parsed answers are browser independent, so one project owns the snapshots
+    test.skip(testInfo.project.name !== 'chromium', 'Golden snapshots are recorded on chromium only');
+  });
+
+  for (const goldenQuery of loadGoldenQueries()) {
+    test(`golden answer: ${goldenQuery.id}`, async ({ decisionCoach }, testInfo) => {
+      console.log(`🏅 Checking ${getGoldenBackend()} golden answer for "${goldenQuery.query}"`);
+
+      await decisionCoach.goto();
+      await decisionCoach.askAndWait(goldenQuery.query);
+
+      const answer = await parseAnswerCard(decisionCoach.page);
+      const baseline = readGoldenSnapshot(goldenQuery.id);
+
+      if (isGoldenUpdateMode() || !baseline) {
+        // Like snapshot tools in CI, a missing baseline is an error rather than silently recorded
+        if (!baseline && process.env.CI && !isGoldenUpdateMode()) {
+          throw new Error(`No ${getGoldenBackend()} golden snapshot for "${goldenQuery.id}". Record it with THINKPAL_UPDATE_GOLDEN=1`);
+        }
+
+        const file = writeGoldenSnapshot({
+          id: goldenQuery.id,
+          query: goldenQuery.query,
+          recordedAt: new Date().toISOString(),
+          answer
+        });
+        testInfo.annotations.push({ type: 'golden', description: `recorded ${file}` });
+        console.log(`💾 Golden snapshot recorded: ${file}`);
+        return;
+      }
+
+      const diff = diffAnswers(baseline, answer);
+      const report = formatAnswerDiff(diff);
+      await testInfo.attach(`golden-diff-${goldenQuery.id}`, { body: report, contentType: 'text/plain' });
+      console.log(report);
+
+      expect(diff.hasRegressions, report).toBeFalsy();
+      console.log(`✅ Golden answer "${goldenQuery.id}" matches its snapshot`);
+    });
+  }
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { A11yViolation, loadA11yBaseline, subtractKnownViolations } from '../helpers/a11y-audit';
+
+const LABEL_VIOLATION: A11yViolation = {
+  id: 'label',
+  impact: 'critical',
+  help: 'Form fields must have a label (placeholder alone is not enough)',
+  nodes: [
+    { target: 'main > textarea', html: '<textarea placeholder="Ask me anything..."></textarea>', failure: 'Only a placeholder ("Ask me anything...") labels this field' },
+    { target: 'form > input', html: '<input type="email">', failure: 'Field has no label' }
+  ]
+};
+
+const TOOLTIP_VIOLATION: A11yViolation = {
+  id: 'tooltip-title-only',
+  impact: 'serious',
+  help: 'Tooltips must not rely on the title attribute alone',
+  nodes: [{ target: 'span.tooltip', html: '<span class="tooltip" title="A method">Scenario Analysis</span>', failure: '"Scenario Analysis" exposes its tooltip only via title' }]
+};
+
+test.describe('subtractKnownViolations', () => {
+  test('removes only the nodes a baseline entry matches', () => {
+    const { remaining, known } = subtractKnownViolations([LABEL_VIOLATION, TOOLTIP_VIOLATION], [
+      { rule: 'label', match: 'Ask me anything', reason: 'placeholder only' },
+      { rule: 'tooltip-title-only', reason: 'title tooltips' }
+    ]);
+
+    expect(remaining.map(violation => [violation.id, violation.nodes.map(node => node.target)])).toEqual([
+      ['label', ['form > input']]
+    ]);
+    expect(known.map(violation => [violation.id, violation.nodes.map(node => node.target)])).toEqual([
+      ['label', ['main > textarea']],
+      ['tooltip-title-only', ['span.tooltip']]
+    ]);
+  });
+
+  test('keeps every violation without a baseline', () => {
+    const { remaining, known } = subtractKnownViolations([LABEL_VIOLATION, TOOLTIP_VIOLATION], []);
+
+    expect(remaining).toEqual([LABEL_VIOLATION, TOOLTIP_VIOLATION]);
+    expect(known).toEqual([]);
+  });
+});
+
+test.describe('loadA11yBaseline', () => {
+  test('loads the committed baseline with a reason for every entry', () => {
+    const baseline = loadA11yBaseline();
+
+    expect(baseline.map(entry => entry.rule)).toEqual(['label', 'tooltip-title-only']);
+    expect(baseline.every(entry => entry.reason.length > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,20 @@
+import { test, expect } from '@playwright/test';
+import { findSectionContainer } from '../helpers/answer-parser';
+
+test.describe('findSectionContainer', () => {
+  test('finds a section by its whole heading, not by a heading that merely contains it', async ({ page }) => {
+    await page.setContent(`
+      <div data-testid="response">
+        <div id="concepts"><h3>Concepts/Tools/Practice Reference</h3><p>Scenario Analysis: comparing plausible futures.</p></div>
+      </div>`);
+
+    expect(await findSectionContainer(page, 'tools')).toBeNull();
+    expect(await (await findSectionContainer(page, 'concepts'))?.getAttribute('id')).toBe('concepts');
+  });
+
+  test('ignores icons and punctuation around the heading', async ({ page }) => {
+    await page.setContent('<div data-testid="response"><div id="tools"><h4>🛠️ Analytical Tools:</h4><p>SWOT</p></div></div>');
+
+    expect(await (await findSectionContainer(page, 'tools'))?.getAttribute('id')).toBe('tools');
+  });
+});
@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+import {
+  BrowserSnapshot,
+  CrossBrowserConfig,
+  diffBrowserSnapshots,
+  formatCrossBrowserReport,
+  measureSectionLayouts,
+  probeTooltips
+} from '../helpers/cross-browser-diff';
+import { anAnswer } from '../helpers/answer-builder';
+import { ANSWER_SECTION_IDS } from '../helpers/answer-parser';
+
+const QUERY = 'How do I plan production under tariff uncertainty?';
+
+const CONFIG: CrossBrowserConfig = {
+  queries: [QUERY],
+  referenceProject: 'chromium',
+  layoutGroups: { desktop: ['chromium', 'webkit'], mobile: ['Mobile Chrome', 'Mobile Safari'] },
+  tolerances: { lineCount: 1, heightPx: 24, widthPx: 16 }
+};
+
+function snapshotFor(project: string, width: number): BrowserSnapshot {
+  return {
+    project,
+    query: QUERY,
+    viewport: { width, height: 800 },
+    answer: {
+      strategy: ['Treat tariffs as a range of outcomes.'],
+      story: 'A mid-sized appliance maker modelled three tariff levels.',
+      reflectionPrompts: ['How would each tariff scenario change your landed cost per unit?'],
+      concepts: [{ term: 'Scenario Analysis', definition: 'A method for comparing several plausible futures.' }],
+      tooltips: [],
+      missingSections: []
+    },
+    sections: ANSWER_SECTION_IDS.map((id, i) => ({
+      id,
+      visible: true,
+      box: { x: 16, y: 100 + i * 200, width: width - 32, height: 180 },
+      lineCount: 6
+    })),
+    tooltips: [{ term: 'Scenario Analysis', text: 'A method for comparing several plausible futures.', hovered: true, popupVisible: true }]
+  };
+}
+
+test.describe('measureSectionLayouts', () => {
+  test('counts more lines when the same section wraps in a narrower viewport', async ({ page }) => {
+    const html = anAnswer().withStory('A mid-sized appliance maker modelled three tariff levels. '.repeat(6)).toHtml();
+
+    await page.setViewportSize({ width: 1280, height: 800 });
+    await page.setContent(html);
+    const wide = (await measureSectionLayouts(page)).find(layout => layout.id === 'story')!;
+
+    await page.setViewportSize({ width: 360, height: 800 });
+    const narrow = (await measureSectionLayouts(page)).find(layout => layout.id === 'story')!;
+
+    expect(wide.visible).toBe(true);
+    expect(narrow.lineCount).toBeGreaterThan(wide.lineCount);
+    expect(narrow.box!.width).toBeLessThan(wide.box!.width);
+  });
+
+  test('marks sections that are not rendered', async ({ page }) => {
+    await page.setContent(anAnswer().withoutStory().toHtml());
+
+    const story = (await measureSectionLayouts(page)).find(layout => layout.id === 'story');
+    expect(story).toEqual({ id: 'story', visible: false, box: null, lineCount: 0 });
+  });
+});
+
+test.describe('probeTooltips', () => {
+  test('tells custom popups from title-only tooltips', async ({ page }) => {
+    await page.setContent(`
+      <style>.tip { display: none; } .term:hover .tip { display: block; }</style>
+      <div data-testid="response">
+        <span class="tooltip" title="Shown only as a native browser tooltip">Hedging</span>
+        <span class="term" data-tooltip="Testing how one input changes an outcome">Sensitivity
+          <span class="tip" role="tooltip">Testing how one input changes an outcome</span>
+        </span>
+      </div>`);
+
+    const tooltips = await probeTooltips(page);
+    expect(tooltips.map(({ hovered, popupVisible }) => ({ hovered, popupVisible }))).toEqual([
+      { hovered: true, popupVisible: false },
+      { hovered: true, popupVisible: true }
+    ]);
+  });
+});
+
+test.describe('diffBrowserSnapshots', () => {
+  test('reports no differences when all browsers agree', () => {
+    const report = diffBrowserSnapshots([snapshotFor('chromium', 1280), snapshotFor('webkit', 1280), snapshotFor('Mobile Chrome', 393)], CONFIG);
+
+    expect(report.diffs).toEqual([]);
+    expect(report.isConsistent).toBe(true);
+    expect(formatCrossBrowserReport(report)).toContain('All browsers agree on 1 queries');
+  });
+
+  test('reports tooltips that do not show and sections that wrap differently', () => {
+    const webkit = snapshotFor('webkit', 1280);
+    webkit.tooltips[0].popupVisible = false;
+    const mobileSafari = snapshotFor('Mobile Safari', 390);
+    mobileSafari.sections[1].lineCount = 9;
+    mobileSafari.sections[1].box!.height = 260;
+
+    const report = diffBrowserSnapshots([snapshotFor('chromium', 1280), webkit, snapshotFor('Mobile Chrome', 393), mobileSafari], CONFIG);
+
+    expect(report.diffs.map(({ category, subject, project, referenceProject, expected, actual }) =>
+      [category, subject, project, referenceProject, expected, actual])).toEqual([
+      ['tooltip', 'tooltip Scenario Analysis', 'webkit', 'chromium', 'popup shown', 'no popup'],
+      ['layout', 'story.lineCount', 'Mobile Safari', 'Mobile Chrome', '6', '9'],
+      ['layout', 'story.height', 'Mobile Safari', 'Mobile Chrome', '180px', '260px']
+    ]);
+    expect(formatCrossBrowserReport(report)).toContain('[tooltip] tooltip Scenario Analysis on webkit: no popup (chromium: popup shown)');
+  });
+
+  test('reports content differences and missing snapshots', () => {
+    const webkit = snapshotFor('webkit', 1280);
+    webkit.answer.story = '';
+    webkit.answer.missingSections = ['story'];
+    const otherQuery = { ...snapshotFor('chromium', 1280), query: 'How should I approach market entry strategy?' };
+
+    const report = diffBrowserSnapshots([snapshotFor('chromium', 1280), webkit, otherQuery], CONFIG);
+
+    expect(report.diffs.map(diff => [diff.query === QUERY ? 'tariff' : 'market', diff.subject, diff.project])).toEqual([
+      ['tariff', 'missingSections', 'webkit'],
+      ['tariff', 'story', 'webkit'],
+      ['market', 'snapshot', 'webkit']
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { test, expect } from '@playwright/test';
+import { DecisionCoachPage } from '../pages/decision-coach-page';
+import { ANSWER_SECTION_IDS } from '../helpers/answer-parser';
+import { anAnswer } from '../helpers/answer-builder';
+
+test.describe('DecisionCoachPage.getSection', () => {
+  test('resolves each section to its own container, not the page wrapper', async ({ page }) => {
+    await page.setContent(anAnswer().toHtml());
+    const decisionCoach = new DecisionCoachPage(page);
+
+    const testIds = await Promise.all(ANSWER_SECTION_IDS.map(id => decisionCoach.getSection(id).getAttribute('data-testid')));
+    expect(testIds).toEqual(['strategy-section', 'story-section', 'reflection-section', 'concepts-section']);
+  });
+
+  test('falls back to the parent of a heading that matches as a whole', async ({ page }) => {
+    await page.setContent(`
+      <main>
+        <textarea placeholder="Ask me anything..."></textarea>
+        <div id="story"><h3>📖 Story in Action</h3><p>A mid-sized appliance maker modelled three tariff levels.</p></div>
+        <div id="concepts"><h3>Concepts/Tools/Practice Reference</h3><p>Scenario Analysis</p></div>
+      </main>`);
+    const decisionCoach = new DecisionCoachPage(page);
+
+    await expect(decisionCoach.getSection('story')).toHaveAttribute('id', 'story');
+    await expect(decisionCoach.getSection('concepts')).toHaveAttribute('id', 'concepts');
+    await expect(decisionCoach.getSection('tools')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { ReadinessProject, getProjectFilter, getRequiredComponents, selectProjects, validateAppInterface } from '../helpers/readiness-checker';
+import { anAnswer } from '../helpers/answer-builder';
+
+test.describe('validateAppInterface', () => {
+  test('accepts a page with a query box and an Ask button', async ({ page }) => {
+    await page.setContent(anAnswer().toHtml());
+
+    const result = await validateAppInterface(page);
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+
+  test('reports a missing query box', async ({ page }) => {
+    await page.setContent('<main><button>Ask</button></main>');
+
+    const result = await validateAppInterface(page);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['Query input field not found or not visible']);
+  });
+
+  test('reports a missing or hidden Ask button', async ({ page }) => {
+    await page.setContent('<main><textarea placeholder="Ask me anything..."></textarea><button style="display: none">Ask</button></main>');
+
+    const result = await validateAppInterface(page);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['Ask/Submit button not found or not visible']);
+  });
+
+  test('does not accept an unrelated button', async ({ page }) => {
+    await page.setContent('<main><textarea></textarea><button>Cancel</button></main>');
+
+    const result = await validateAppInterface(page);
+    expect(result.errors).toEqual(['Ask/Submit button not found or not visible']);
+  });
+});
+
+test.describe('readiness components', () => {
+  const projects: ReadinessProject[] = [
+    { name: 'chromium', metadata: {} },
+    { name: 'Mobile Chrome', metadata: {} },
+    { name: 'helper-unit', metadata: { readiness: [] } },
+    { name: 'api', metadata: { readiness: ['backend', 'canary'] } }
+  ];
+  const names = (selected: ReadinessProject[]) => selected.map(project => project.name);
+
+  test('reads --project in both CLI forms', () => {
+    expect(getProjectFilter(['node', 'playwright', 'test'])).toBeUndefined();
+    expect(getProjectFilter(['node', 'playwright', 'test', '--project=api'])).toEqual(['api']);
+    expect(getProjectFilter(['node', 'playwright', 'test', '--project', 'api', 'chromium', '--reporter=list'])).toEqual(['api', 'chromium']);
+  });
+
+  test('selects projects like the CLI: case-insensitive, with wildcards', () => {
+    expect(names(selectProjects(projects, undefined))).toEqual(['chromium', 'Mobile Chrome', 'helper-unit', 'api']);
+    expect(names(selectProjects(projects, ['API']))).toEqual(['api']);
+    expect(names(selectProjects(projects, ['*chrom*']))).toEqual(['chromium', 'Mobile Chrome']);
+  });
+
+  test('probes only what the selected projects need', () => {
+    expect(getRequiredComponents(selectProjects(projects, ['api']))).toEqual(['backend', 'canary']);
+    expect(getRequiredComponents(selectProjects(projects, ['helper-unit']))).toEqual([]);
+    expect(getRequiredComponents(selectProjects(projects, ['api', 'chromium']))).toEqual(['frontend', 'backend', 'canary']);
+  });
+});
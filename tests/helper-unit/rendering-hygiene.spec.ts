@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+import { HYGIENE_RULES, HygieneRuleId, scanRenderingHygiene, formatHygieneReport } from '../helpers/rendering-hygiene';
+import { anAnswer } from '../helpers/answer-builder';
+
+function matches(rule: HygieneRuleId, text: string): string[] {
+  const { pattern, flags } = HYGIENE_RULES[rule];
+  return Array.from(text.matchAll(new RegExp(pattern!, flags || 'g')), match => match[0]);
+}
+
+// Text each rule must flag (with the expected matches) and text it must leave alone
+const PATTERN_CASES: { rule: HygieneRuleId; positive: [string, string[]][]; negative: string[] }[] = [
+  {
+    rule: 'markdown-heading',
+    positive: [['## Strategic Thinking Lens', ['## S']], ['Intro\n### Story', ['### S']]],
+    negative: ['Tariffs rose #2 this year', 'C# developers']
+  },
+  {
+    rule: 'markdown-list-marker',
+    positive: [['- Build three scenarios', ['- B']], ['1. Model the tariffs', ['1. M']]],
+    negative: ['Costs rose - but not much', 'A 3.5% tariff', '-5% margin']
+  },
+  {
+    rule: 'markdown-emphasis',
+    positive: [
+      ['Use **Scenario Analysis** first.', ['**Scenario Analysis**']],
+      ['Use __Hedging__ and *care*.', ['__Hedging__', '*care*']],
+      ['A stray ** left behind', ['**']]
+    ],
+    negative: ['2 * 3 * 4 = 24', 'snake_case_name', 'Footnote*']
+  },
+  {
+    rule: 'markdown-code',
+    positive: [['Run `npm test` daily.', ['`npm test`']], ['A lone ` backtick', ['`']], ['```', ['```']]],
+    negative: ["It's the supplier's call", 'Quotes "like this"']
+  },
+  {
+    rule: 'markdown-link',
+    positive: [['See [the guide](https://example.com) for more.', ['[the guide](https://example.com)']]],
+    negative: ['Ranges [low, high] (in %)', 'See the guide (https://example.com)']
+  },
+  {
+    rule: 'html-entity',
+    positive: [['Tariffs &amp; duties', ['&amp;']], ['Price &#8364;5 or &#x20AC;5', ['&#8364;', '&#x20AC;']]],
+    negative: ['Tariffs & duties', 'R&D;', 'AT&T']
+  },
+  {
+    rule: 'value-leak',
+    positive: [
+      ['Definition: undefined', [': undefined']],
+      ['Term: [object Object]', ['[object Object]']],
+      ['Growth rate: NaN', [': NaN']],
+      ['Story: null', [': null']],
+      ['Intro\nundefined\nMore', ['undefined']]
+    ],
+    negative: [
+      'The outcome is undefined until tariffs settle.',
+      'NaN values in the forecast mean the model needs more data',
+      'Costs stay undefined: suppliers have not quoted yet',
+      'An undefinedness of scope',
+      'Nullify the risk',
+      'A null hypothesis test'
+    ]
+  },
+  {
+    rule: 'broken-unicode',
+    positive: [['donâ€™t guess', ['â€']], ['CafÃ© owners', ['Ã©']], ['Lost \uFFFD char', ['\uFFFD']]],
+    negative: ['Café Économie 📈', '関税リスク', 'don’t guess']
+  }
+];
+
+test.describe('HYGIENE_RULES patterns', () => {
+  for (const { rule, positive, negative } of PATTERN_CASES) {
+    test(`${rule} flags artifacts and leaves clean text alone`, () => {
+      for (const [text, expected] of positive) {
+        expect(matches(rule, text), text).toEqual(expected);
+      }
+      for (const text of negative) {
+        expect(matches(rule, text), text).toEqual([]);
+      }
+    });
+  }
+});
+
+test.describe('scanRenderingHygiene', () => {
+  test('accepts a cleanly rendered answer', async ({ page }) => {
+    await page.setContent(anAnswer().toHtml());
+
+    const result = await scanRenderingHygiene(page);
+    expect(result.issues, formatHygieneReport(result)).toEqual([]);
+    expect(result.isValid).toBe(true);
+  });
+
+  test('reports each kind of artifact with its element and snippet', async ({ page }) => {
+    await page.setContent(`
+      <div data-testid="response">
+        <p id="heading">## Strategic Thinking Lens</p>
+        <p id="list">- Build three scenarios</p>
+        <p id="bold">Use **Scenario Analysis** first.</p>
+        <p id="code">Run \`npm test\` daily.</p>
+        <p id="link">See [the guide](https://example.com) for more.</p>
+        <p id="entity">Tariffs &amp;amp; duties</p>
+        <p id="leak">Definition: undefined</p>
+        <p id="unicode">donâ€™t guess</p>
+        <ul id="items"><li>Real item</li><li> </li></ul>
+      </div>`);
+
+    const result = await scanRenderingHygiene(page);
+    const hits = result.issues.map(issue => [issue.rule, issue.target]);
+    expect(hits).toEqual([
+      ['markdown-heading', '#heading'],
+      ['markdown-list-marker', '#list'],
+      ['markdown-emphasis', '#bold'],
+      ['markdown-code', '#code'],
+      ['markdown-link', '#link'],
+      ['html-entity', '#entity'],
+      ['value-leak', '#leak'],
+      ['broken-unicode', '#unicode'],
+      ['empty-list-item', '#items > li']
+    ]);
+    expect(result.issues.find(issue => issue.rule === 'html-entity')?.snippet).toBe('Tariffs &amp; duties');
+    expect(result.issues.find(issue => issue.rule === 'empty-list-item')?.html).toBe('<li> </li>');
+  });
+
+  test('ignores backticks inside rendered code and text outside the answer', async ({ page }) => {
+    await page.setContent(`
+      <p>**Not part of the answer**</p>
+      <div data-testid="response"><p>Run <code>\`npm test\`</code> daily.</p></div>`);
+
+    const result = await scanRenderingHygiene(page);
+    expect(result.issues).toEqual([]);
+  });
+
+  test('skips disabled rules', async ({ page }) => {
+    await page.setContent('<div data-testid="response"><p>Use **bold** and `code`.</p></div>');
+
+    const result = await scanRenderingHygiene(page, { disableRules: ['markdown-emphasis'] });
+    expect(result.issues.map(issue => issue.rule)).toEqual(['markdown-code']);
+  });
+});
@@ -0,0 +1,207 @@
+import { test, expect, Page } from '@playwright/test';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryAttempt,
+  RetryPolicy,
+  classifyError,
+  computeRetryDelay,
+  retryPageOperation,
+  retryValidation,
+  runWithRetry
+} from '../helpers/retry-helper';
+
+/** Short delays without jitter so the engine tests run in milliseconds */
+const FAST: Partial<RetryPolicy> = { baseDelay: 1, maxDelay: 1, jitter: 0 };
+
+function timeoutError(): Error {
+  const error = new Error('locator.click: Timeout 5000ms exceeded.');
+  error.name = 'TimeoutError';
+  return error;
+}
+
+async function assertionError(): Promise<unknown> {
+  try {
+    expect('wrong answer').toBe('right answer');
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expect() did not fail');
+}
+
+/** Operation failing with the given errors in turn, then returning 'ok' */
+function failingWith(...errors: unknown[]): { operation: () => Promise<string>; calls: () => number } {
+  let calls = 0;
+  return {
+    operation: async () => {
+      const error = errors[calls++];
+      if (error !== undefined) {
+        throw error;
+      }
+      return 'ok';
+    },
+    calls: () => calls
+  };
+}
+
+test.describe('classifyError', () => {
+  test('fails fast on expect() assertion failures', async () => {
+    expect(classifyError(await assertionError())).toBe('fail');
+  });
+
+  test('retries timeouts and connection resets', () => {
+    expect(classifyError(timeoutError())).toBe('retry');
+    expect(classifyError(new Error('read ECONNRESET'))).toBe('retry');
+    expect(classifyError(new Error('page.goto: net::ERR_CONNECTION_REFUSED'))).toBe('retry');
+  });
+
+  test('leaves unrecognized errors to retryUnclassified', () => {
+    const error = new Error('Response did not contain a strategy section');
+
+    expect(classifyError(error)).toBe('fail');
+    expect(classifyError(error, { ...DEFAULT_RETRY_POLICY, retryUnclassified: true })).toBe('retry');
+  });
+
+  test('lets the first classifier with a decision win', () => {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, classifiers: [() => undefined, () => 'fail', () => 'retry'] };
+
+    expect(classifyError(timeoutError(), policy)).toBe('fail');
+  });
+});
+
+test.describe('computeRetryDelay', () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelay: 500, maxDelay: 2000, backoffMultiplier: 2, jitter: 0.2 };
+
+  test('keeps the jittered delay within ±jitter of the backoff', () => {
+    expect(computeRetryDelay(1, policy, () => 0)).toBe(400);
+    expect(computeRetryDelay(1, policy, () => 0.5)).toBe(500);
+    expect(computeRetryDelay(1, policy, () => 1)).toBe(600);
+    expect(computeRetryDelay(2, policy, () => 0.5)).toBe(1000);
+  });
+
+  test('never exceeds maxDelay, even with the largest jitter', () => {
+    expect(computeRetryDelay(5, policy, () => 0.5)).toBe(2000);
+    expect(computeRetryDelay(5, policy, () => 1)).toBe(2000);
+    expect(computeRetryDelay(5, policy, () => 0)).toBe(1600);
+    expect(computeRetryDelay(2, { ...policy, maxDelay: 1100 }, () => 1)).toBe(1100);
+  });
+
+  test('never returns a negative delay', () => {
+    expect(computeRetryDelay(1, { ...policy, jitter: 2 }, () => 0)).toBe(0);
+  });
+});
+
+test.describe('runWithRetry', () => {
+  test('retries transient errors and records every attempt', async () => {
+    const { operation, calls } = failingWith(timeoutError(), new Error('read ECONNRESET'));
+
+    const result = await runWithRetry(operation, 'Load answer', FAST);
+
+    expect(result.succeeded).toBe(true);
+    expect(result.value).toBe('ok');
+    expect(result.stopReason).toBe('success');
+    expect(calls()).toBe(3);
+    expect(result.attempts.map(({ attempt, outcome, errorName, delayMs }) => ({ attempt, outcome, errorName, delayMs }))).toEqual([
+      { attempt: 1, outcome: 'retry', errorName: 'TimeoutError', delayMs: 1 },
+      { attempt: 2, outcome: 'retry', errorName: 'Error', delayMs: 1 },
+      { attempt: 3, outcome: 'success', errorName: undefined, delayMs: undefined }
+    ]);
+  });
+
+  test('stops at the first assertion failure', async () => {
+    const { operation, calls } = failingWith(await assertionError());
+
+    const result = await runWithRetry(operation, 'Check answer', FAST);
+
+    expect(result.succeeded).toBe(false);
+    expect(result.stopReason).toBe('non-retryable');
+    expect(calls()).toBe(1);
+    expect(result.attempts[0].outcome).toBe('fail');
+  });
+
+  test('gives up after maxRetries attempts', async () => {
+    const { operation, calls } = failingWith(timeoutError(), timeoutError(), timeoutError());
+
+    const result = await runWithRetry(operation, 'Load answer', { ...FAST, maxRetries: 2 });
+
+    expect(result.succeeded).toBe(false);
+    expect(result.stopReason).toBe('max-attempts');
+    expect(calls()).toBe(2);
+    expect(result.attempts[1].outcome).toBe('fail');
+    expect(result.attempts[1].delayMs).toBeUndefined();
+  });
+
+  test('stops when the next delay would exceed the time budget', async () => {
+    const { operation, calls } = failingWith(timeoutError(), timeoutError());
+
+    const result = await runWithRetry(operation, 'Load answer', { ...FAST, baseDelay: 50, maxDelay: 50, budgetMs: 20 });
+
+    expect(result.succeeded).toBe(false);
+    expect(result.stopReason).toBe('budget');
+    expect(calls()).toBe(1);
+  });
+
+  test('returns a failed result instead of throwing when maxRetries is below 1', async () => {
+    const { operation, calls } = failingWith();
+
+    const result = await runWithRetry(operation, 'Load answer', { ...FAST, maxRetries: 0 });
+
+    expect(result.succeeded).toBe(false);
+    expect(result.stopReason).toBe('max-attempts');
+    expect(result.attempts).toEqual([]);
+    expect(String(result.error)).toContain('maxRetries must be at least 1');
+    expect(calls()).toBe(0);
+  });
+
+  test('calls the hooks around each attempt', async () => {
+    const { operation } = failingWith(timeoutError());
+    const started: number[] = [];
+    const failed: RetryAttempt[] = [];
+
+    await runWithRetry(operation, 'Load answer', FAST, {
+      beforeAttempt: attempt => { started.push(attempt); },
+      onAttemptFailed: attempt => { failed.push(attempt); }
+    });
+
+    expect(started).toEqual([1, 2]);
+    expect(failed.map(attempt => attempt.attempt)).toEqual([1]);
+  });
+
+  test('keeps retrying when a failure hook throws', async () => {
+    const { operation } = failingWith(timeoutError());
+
+    const result = await runWithRetry(operation, 'Load answer', FAST, {
+      onAttemptFailed: () => { throw new Error('screenshot failed'); }
+    });
+
+    expect(result.succeeded).toBe(true);
+    expect(result.attempts).toHaveLength(2);
+  });
+});
+
+test.describe('throwing wrappers', () => {
+  test('retryValidation retries unrecognized errors', async () => {
+    const { operation, calls } = failingWith(new Error('Response did not contain a strategy section'));
+
+    await expect(retryValidation(operation, 'Validate sections', FAST)).resolves.toBe('ok');
+    expect(calls()).toBe(2);
+  });
+
+  test('retryPageOperation retries unrecognized errors and screenshots each failure', async () => {
+    const screenshots: string[] = [];
+    const page = { screenshot: async ({ path }: { path: string }) => { screenshots.push(path); } } as unknown as Page;
+    const { operation, calls } = failingWith(new Error('Submit button stayed disabled'));
+
+    await expect(retryPageOperation(page, operation, 'Submit query', FAST)).resolves.toBe('ok');
+    expect(calls()).toBe(2);
+    expect(screenshots).toEqual([expect.stringContaining('submit-query-attempt-1.png')]);
+  });
+
+  test('retryPageOperation still fails fast on assertions and throws the error', async () => {
+    const page = { screenshot: async () => undefined } as unknown as Page;
+    const error = await assertionError();
+    const { operation, calls } = failingWith(error);
+
+    await expect(retryPageOperation(page, operation, 'Submit query', FAST)).rejects.toBe(error);
+    expect(calls()).toBe(1);
+  });
+});
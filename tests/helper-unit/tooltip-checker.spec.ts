@@ -0,0 +1,136 @@
+import { test, expect } from '@playwright/test';
+import { validateTooltips, validateSection, validateAllSections } from '../helpers/tooltip-checker';
+import { getSectionDefinition, getSectionSelectors } from '../helpers/section-schema';
+import { anAnswer } from '../helpers/answer-builder';
+
+const LONG_TEXT = 'Treat tariffs as a range of outcomes and commit only to plans that hold up across every scenario.';
+
+function selectorsFor(id: string): string[] {
+  return getSectionSelectors(getSectionDefinition(id));
+}
+
+// The validators decide whether the UI suite passes, so each one is checked against crafted DOM
+test.describe('validateTooltips', () => {
+  test('accepts terms with meaningful tooltips', async ({ page }) => {
+    await page.setContent(anAnswer().toHtml());
+
+    const result = await validateTooltips(page);
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.tooltipCount).toBe(2);
+    expect(result.validTooltips).toBe(2);
+  });
+
+  test('rejects an answer without tooltips', async ({ page }) => {
+    await page.setContent(anAnswer().toHtml({ conceptStyle: 'inline' }));
+
+    const result = await validateTooltips(page);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['No tooltips found in response']);
+  });
+
+  test('rejects short, placeholder and missing tooltip texts', async ({ page }) => {
+    await page.setContent(`
+      <div data-testid="response">
+        <span class="tooltip" title="Too short">Hedging</span>
+        <span class="tooltip" title="No description available for this term">Landed Cost</span>
+        <span class="tooltip">Break-even</span>
+        <span class="tooltip" title="A tooltip without a term to explain">  </span>
+      </div>`);
+
+    const result = await validateTooltips(page);
+    expect(result.isValid).toBe(false);
+    expect(result.validTooltips).toBe(0);
+    expect(result.details.map(detail => detail.error)).toEqual([
+      'Tooltip too short (9 chars, minimum 15)',
+      'Tooltip contains placeholder text: "No description available for this term"',
+      'Missing tooltip content',
+      'Missing term text'
+    ]);
+  });
+
+  test('fails when any tooltip is invalid, even if others pass', async ({ page }) => {
+    await page.setContent(anAnswer().withConcept('Hedging', 'Too short').toHtml());
+
+    const result = await validateTooltips(page);
+    expect(result.validTooltips).toBe(2);
+    expect(result.isValid).toBe(false);
+  });
+});
+
+test.describe('validateSection', () => {
+  test('accepts a section found by data-testid', async ({ page }) => {
+    await page.setContent(anAnswer().withStrategy(LONG_TEXT).toHtml());
+
+    const result = await validateSection(page, 'Strategic Thinking Lens', selectorsFor('strategy'));
+    expect(result.error).toBeUndefined();
+    expect(result.isValid).toBe(true);
+    expect(result.content).toContain(LONG_TEXT);
+  });
+
+  test('accepts a section found by its heading', async ({ page }) => {
+    await page.setContent(`<div data-testid="response"><div><h3>Strategic Thinking Lens</h3><p>${LONG_TEXT}</p></div></div>`);
+
+    const result = await validateSection(page, 'Strategic Thinking Lens', selectorsFor('strategy'));
+    expect(result.isValid).toBe(true);
+    expect(result.content).toContain(LONG_TEXT);
+  });
+
+  test('does not count the text of sibling sections', async ({ page }) => {
+    await page.setContent(anAnswer().withStrategy('Short.').toHtml());
+
+    const result = await validateSection(page, 'Strategic Thinking Lens', selectorsFor('strategy'));
+    expect(result.isValid).toBe(false);
+    expect(result.content).not.toContain('Story in Action');
+    expect(result.error).toMatch(/^Section too short/);
+  });
+
+  test('reports missing and hidden sections', async ({ page }) => {
+    await page.setContent(anAnswer().withoutStrategy().toHtml());
+    expect((await validateSection(page, 'Strategic Thinking Lens', selectorsFor('strategy'))).error).toBe('Section not found or not visible');
+
+    await page.setContent(`<div data-testid="strategy-section" style="display: none"><h3>Strategic Thinking Lens</h3><p>${LONG_TEXT}</p></div>`);
+    expect((await validateSection(page, 'Strategic Thinking Lens', selectorsFor('strategy'))).error).toBe('Section not found or not visible');
+  });
+
+  test('rejects placeholder text', async ({ page }) => {
+    await page.setContent(anAnswer().withStory(`No story available. ${LONG_TEXT}`).toHtml());
+
+    const result = await validateSection(page, 'Story in Action', selectorsFor('story'));
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('Section contains placeholder text');
+  });
+});
+
+test.describe('validateAllSections', () => {
+  test('accepts a complete answer and skips the optional section', async ({ page }) => {
+    await page.setContent(anAnswer().toHtml());
+
+    const result = await validateAllSections(page);
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+    expect(result.results.find(section => section.sectionName === 'Analytical Tools')?.characterCount).toBe(0);
+  });
+
+  test('reports a missing required section', async ({ page }) => {
+    await page.setContent(anAnswer().withoutStory().toHtml());
+
+    const result = await validateAllSections(page);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['Story in Action: Section not found or not visible']);
+  });
+
+  test('applies the schema content rules', async ({ page }) => {
+    await page.setContent(anAnswer()
+      .withStrategy(`Use **Scenario Analysis** first. ${LONG_TEXT}`)
+      .withReflectionPrompts(['Think about your suppliers.', 'Consider your margins before deciding.'])
+      .toHtml());
+
+    const result = await validateAllSections(page);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Strategic Thinking Lens: Section contains markdown artifacts: bold syntax found',
+      'Reflection Prompts: Section has no questions starting with "How" or "What"'
+    ]);
+  });
+});
@@ -0,0 +1,389 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, Locator } from '@playwright/test';
+import { TOOLTIP_SELECTOR } from './answer-parser';
+
+export type A11yImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export const A11Y_IMPACT_ORDER: A11yImpact[] = ['critical', 'serious', 'moderate', 'minor'];
+
+export interface A11yNode {
+  /** Short CSS path to the offending element */
+  target: string;
+  /** Opening tag and start of the element's outer HTML */
+  html: string;
+  failure: string;
+}
+
+export interface A11yViolation {
+  id: string;
+  impact: A11yImpact;
+  help: string;
+  nodes: A11yNode[];
+}
+
+export interface A11yAuditResult {
+  isValid: boolean;
+  url: string;
+  scope: string;
+  rulesRun: string[];
+  violations: A11yViolation[];
+  /** Violations whose impact is in failOn */
+  blocking: A11yViolation[];
+  /** Nodes covered by the known-violations baseline; reported but never blocking */
+  known: A11yViolation[];
+}
+
+/** Known violation the audit subtracts until the UI is fixed */
+export interface A11yKnownViolation {
+  rule: string;
+  /** Regular expression tested against each node's HTML and failure; omitted matches every node of the rule */
+  match?: string;
+  /** Why the violation is accepted and what removes it */
+  reason: string;
+}
+
+export interface A11yAuditOptions {
+  /** CSS selector limiting element rules to one region; page-level rules always run */
+  include: string;
+  /** Rule ids to skip */
+  disableRules: string[];
+  /** Impacts that make the audit invalid */
+  failOn: A11yImpact[];
+  /** Baseline of accepted violations, see tests/config/a11y-baseline.json */
+  knownViolations: A11yKnownViolation[];
+}
+
+export const DEFAULT_A11Y_AUDIT_OPTIONS: A11yAuditOptions = {
+  include: 'body',
+  disableRules: [],
+  failOn: ['critical', 'serious'],
+  knownViolations: []
+};
+
+export const A11Y_BASELINE_PATH = path.join(__dirname, '..', 'config', 'a11y-baseline.json');
+
+/** Rule ids and what they check, in the order the engine runs them */
+export const A11Y_RULES: Record<string, { impact: A11yImpact; help: string }> = {
+  'document-title': { impact: 'serious', help: 'Documents must have a non-empty <title>' },
+  'html-has-lang': { impact: 'serious', help: '<html> must have a lang attribute' },
+  'landmark-one-main': { impact: 'moderate', help: 'Page should have one main landmark' },
+  'image-alt': { impact: 'critical', help: 'Images must have alternate text' },
+  'button-name': { impact: 'critical', help: 'Buttons must have discernible text' },
+  'link-name': { impact: 'serious', help: 'Links must have discernible text' },
+  'label': { impact: 'critical', help: 'Form fields must have a label (placeholder alone is not enough)' },
+  'duplicate-id': { impact: 'minor', help: 'id attribute values must be unique' },
+  'heading-order': { impact: 'moderate', help: 'Heading levels should only increase by one' },
+  'color-contrast': { impact: 'serious', help: 'Text must have a contrast ratio of at least 4.5:1 (3:1 for large text)' },
+  'tooltip-title-only': { impact: 'serious', help: 'Tooltips must not rely on the title attribute alone; expose them with aria-describedby or role="tooltip"' },
+  'tooltip-keyboard': { impact: 'serious', help: 'Tooltip terms must be reachable by keyboard' }
+};
+
+interface RawViolation {
+  id: string;
+  nodes: A11yNode[];
+}
+
+/**
+ * Rule engine executed inside the page; must stay self-contained because Playwright serializes it
+ */
+function runRulesInPage(args: { include: string; rules: string[]; tooltipSelector: string }): RawViolation[] {
+  const scope = document.querySelector(args.include) || document.body;
+  const results = new Map<string, A11yNode[]>();
+
+  const describe = (el: Element): string => {
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== document.documentElement && parts.length < 4) {
+      if (node.id) {
+        parts.unshift(`#${node.id}`);
+        break;
+      }
+      const classes = Array.from(node.classList).slice(0, 2).map(c => `.${c}`).join('');
+      parts.unshift(`${node.tagName.toLowerCase()}${classes}`);
+      node = node.parentElement;
+    }
+    return parts.join(' > ');
+  };
+  const snippet = (el: Element) => el.outerHTML.replace(/\s+/g, ' ').slice(0, 120);
+  const report = (id: string, el: Element, failure: string) => {
+    if (!results.has(id)) results.set(id, []);
+    results.get(id)!.push({ target: describe(el), html: snippet(el), failure });
+  };
+  const isVisible = (el: Element) => {
+    const style = getComputedStyle(el);
+    const box = el.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && box.width > 0 && box.height > 0;
+  };
+  const inScope = (selector: string) => Array.from(scope.querySelectorAll(selector)).filter(isVisible);
+  const textOf = (el: Element) => ((el as HTMLElement).innerText || el.textContent || '').trim();
+  const labelledByText = (el: Element) =>
+    (el.getAttribute('aria-labelledby') || '')
+      .split(/\s+/)
+      .map(id => (id ? document.getElementById(id) : null))
+      .map(ref => (ref ? textOf(ref) : ''))
+      .join(' ')
+      .trim();
+  const accessibleName = (el: Element) =>
+    (el.getAttribute('aria-label') || '').trim() || labelledByText(el) || textOf(el) ||
+    (el.querySelector('img[alt]')?.getAttribute('alt') || '').trim() || (el.getAttribute('title') || '').trim();
+  const isFocusable = (el: Element) => {
+    const tabindex = el.getAttribute('tabindex');
+    if (tabindex !== null) return Number(tabindex) >= 0;
+    return el.matches('a[href], button:not([disabled]), input:not([disabled]), textarea:not([disabled]), select:not([disabled]), summary');
+  };
+
+  const parseColor = (value: string): number[] | null => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+  };
+  const luminance = ([r, g, b]: number[]) => {
+    const channel = (c: number) => {
+      const s = c / 255;
+      return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  };
+  const backgroundOf = (el: Element): number[] => {
+    let node: Element | null = el;
+    while (node) {
+      const color = parseColor(getComputedStyle(node).backgroundColor);
+      if (color && color[3] > 0) return color;
+      node = node.parentElement;
+    }
+    return [255, 255, 255, 1];
+  };
+
+  const rules: Record<string, () => void> = {
+    'document-title': () => {
+      if (!document.title.trim()) report('document-title', document.documentElement, 'Document has no title');
+    },
+    'html-has-lang': () => {
+      if (!document.documentElement.getAttribute('lang')) {
+        report('html-has-lang', document.documentElement, '<html> has no lang attribute');
+      }
+    },
+    'landmark-one-main': () => {
+      const mains = document.querySelectorAll('main, [role="main"]').length;
+      if (mains !== 1) report('landmark-one-main', document.body, `Found ${mains} main landmarks`);
+    },
+    'image-alt': () => {
+      for (const img of inScope('img')) {
+        if (img.getAttribute('alt') === null && img.getAttribute('role') !== 'presentation' && !accessibleName(img)) {
+          report('image-alt', img, 'Image has no alt attribute');
+        }
+      }
+    },
+    'button-name': () => {
+      for (const button of inScope('button, [role="button"]')) {
+        if (!accessibleName(button)) report('button-name', button, 'Button has no accessible name');
+      }
+    },
+    'link-name': () => {
+      for (const link of inScope('a[href]')) {
+        if (!accessibleName(link)) report('link-name', link, 'Link has no accessible name');
+      }
+    },
+    'label': () => {
+      for (const field of inScope('input:not([type="hidden"]):not([type="submit"]):not([type="button"]), textarea, select')) {
+        const explicit = field.id ? document.querySelector(`label[for="${CSS.escape(field.id)}"]`) : null;
+        const labelled = field.closest('label') || explicit ||
+          (field.getAttribute('aria-label') || '').trim() || labelledByText(field) || (field.getAttribute('title') || '').trim();
+        if (!labelled) {
+          const placeholder = field.getAttribute('placeholder');
+          report('label', field, placeholder ? `Only a placeholder ("${placeholder}") labels this field` : 'Field has no label');
+        }
+      }
+    },
+    'duplicate-id': () => {
+      const seen = new Set<string>();
+      for (const el of Array.from(scope.querySelectorAll('[id]'))) {
+        if (seen.has(el.id)) report('duplicate-id', el, `id "${el.id}" is used more than once`);
+        seen.add(el.id);
+      }
+    },
+    'heading-order': () => {
+      let previous = 0;
+      for (const heading of inScope('h1, h2, h3, h4, h5, h6')) {
+        const level = Number(heading.tagName[1]);
+        if (previous > 0 && level > previous + 1) {
+          report('heading-order', heading, `Heading jumps from h${previous} to h${level}`);
+        }
+        previous = level;
+      }
+    },
+    'color-contrast': () => {
+      for (const el of inScope('p, li, span, a, button, label, h1, h2, h3, h4, h5, h6, strong, em, td, th')) {
+        const ownText = Array.from(el.childNodes).some(n => n.nodeType === Node.TEXT_NODE && (n.textContent || '').trim());
+        if (!ownText) continue;
+        const style = getComputedStyle(el);
+        const fg = parseColor(style.color);
+        if (!fg) continue;
+        const ratio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+        const contrast = ratio(luminance(fg), luminance(backgroundOf(el)));
+        const size = parseFloat(style.fontSize);
+        const bold = Number(style.fontWeight) >= 700;
+        const required = size >= 24 || (bold && size >= 18.66) ? 3 : 4.5;
+        if (contrast < required) {
+          report('color-contrast', el, `Contrast ${contrast.toFixed(2)}:1 is below ${required}:1`);
+        }
+      }
+    },
+    'tooltip-title-only': () => {
+      for (const term of inScope(args.tooltipSelector)) {
+        const describedBy = term.getAttribute('aria-describedby');
+        const hasTooltipRole = term.querySelector('[role="tooltip"]') || (describedBy && document.getElementById(describedBy));
+        if (term.hasAttribute('title') && !hasTooltipRole && !term.getAttribute('aria-label')) {
+          report('tooltip-title-only', term, `"${textOf(term).slice(0, 40)}" exposes its tooltip only via title`);
+        }
+      }
+    },
+    'tooltip-keyboard': () => {
+      for (const term of inScope(args.tooltipSelector)) {
+        if (!isFocusable(term) && !term.querySelector('a[href], button, [tabindex]:not([tabindex="-1"])')) {
+          report('tooltip-keyboard', term, `"${textOf(term).slice(0, 40)}" cannot receive keyboard focus`);
+        }
+      }
+    }
+  };
+
+  for (const id of args.rules) {
+    rules[id]?.();
+  }
+  return Array.from(results.entries()).map(([id, nodes]) => ({ id, nodes }));
+}
+
+/**
+ * Loads the known violations of the current UI from tests/config/a11y-baseline.json
+ */
+export function loadA11yBaseline(baselinePath: string = A11Y_BASELINE_PATH): A11yKnownViolation[] {
+  const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as A11yKnownViolation[];
+  for (const entry of baseline) {
+    if (!entry.rule || !A11Y_RULES[entry.rule] || !entry.reason) {
+      throw new Error(`Invalid a11y baseline entry in ${baselinePath}: ${JSON.stringify(entry)} needs a known rule and a reason`);
+    }
+  }
+  return baseline;
+}
+
+/**
+ * Splits violations into new ones and nodes covered by the baseline; a violation appears in
+ * both lists when only some of its nodes are known
+ */
+export function subtractKnownViolations(
+  violations: A11yViolation[],
+  knownViolations: A11yKnownViolation[]
+): { remaining: A11yViolation[]; known: A11yViolation[] } {
+  const remaining: A11yViolation[] = [];
+  const known: A11yViolation[] = [];
+
+  for (const violation of violations) {
+    const entries = knownViolations.filter(entry => entry.rule === violation.id);
+    const isKnown = (node: A11yNode) => entries.some(entry => {
+      const pattern = entry.match ? new RegExp(entry.match, 'i') : null;
+      return !pattern || pattern.test(node.html) || pattern.test(node.failure);
+    });
+    const knownNodes = violation.nodes.filter(isKnown);
+    const newNodes = violation.nodes.filter(node => !isKnown(node));
+
+    if (knownNodes.length > 0) {
+      known.push({ ...violation, nodes: knownNodes });
+    }
+    if (newNodes.length > 0) {
+      remaining.push({ ...violation, nodes: newNodes });
+    }
+  }
+  return { remaining, known };
+}
+
+/**
+ * Runs the bundled accessibility rules against the page (or the `include` region)
+ */
+export async function auditAccessibility(
+  page: Page,
+  options: Partial<A11yAuditOptions> = {}
+): Promise<A11yAuditResult> {
+  const config = { ...DEFAULT_A11Y_AUDIT_OPTIONS, ...options };
+  const rulesRun = Object.keys(A11Y_RULES).filter(id => !config.disableRules.includes(id));
+
+  const raw = await page.evaluate(runRulesInPage, {
+    include: config.include,
+    rules: rulesRun,
+    tooltipSelector: TOOLTIP_SELECTOR
+  });
+
+  const found: A11yViolation[] = raw
+    .map(({ id, nodes }) => ({ id, impact: A11Y_RULES[id].impact, help: A11Y_RULES[id].help, nodes }))
+    .sort((a, b) => A11Y_IMPACT_ORDER.indexOf(a.impact) - A11Y_IMPACT_ORDER.indexOf(b.impact));
+  const { remaining: violations, known } = subtractKnownViolations(found, config.knownViolations);
+  const blocking = violations.filter(violation => config.failOn.includes(violation.impact));
+
+  console.log(`♿ Accessibility audit of ${config.include}: ${violations.length} rule violations (${blocking.length} blocking, ${known.length} known)`);
+
+  return {
+    isValid: blocking.length === 0,
+    url: page.url(),
+    scope: config.include,
+    rulesRun,
+    violations,
+    blocking,
+    known
+  };
+}
+
+/**
+ * Violations keyed by impact, most severe first
+ */
+export function groupViolationsByImpact(violations: A11yViolation[]): Record<A11yImpact, A11yViolation[]> {
+  const grouped = {} as Record<A11yImpact, A11yViolation[]>;
+  for (const impact of A11Y_IMPACT_ORDER) {
+    grouped[impact] = violations.filter(violation => violation.impact === impact);
+  }
+  return grouped;
+}
+
+/**
+ * Human-readable violations report grouped by impact
+ */
+export function formatA11yReport(result: A11yAuditResult): string {
+  const lines = [`Accessibility audit: ${result.url} (scope: ${result.scope})`];
+  if (result.known.length > 0) {
+    lines.push(`Known (baseline): ${result.known.map(violation => `${violation.id} x${violation.nodes.length}`).join(', ')}`);
+  }
+  if (result.violations.length === 0) {
+    lines.push(`No new violations across ${result.rulesRun.length} rules`);
+    return lines.join('\n');
+  }
+
+  const grouped = groupViolationsByImpact(result.violations);
+  for (const impact of A11Y_IMPACT_ORDER) {
+    if (grouped[impact].length === 0) continue;
+    lines.push('', `${impact.toUpperCase()} (${grouped[impact].length})`);
+    for (const violation of grouped[impact]) {
+      lines.push(`  ${violation.id}: ${violation.help}`);
+      for (const node of violation.nodes.slice(0, 5)) {
+        lines.push(`    - ${node.target}: ${node.failure}`);
+        lines.push(`      ${node.html}`);
+      }
+      if (violation.nodes.length > 5) {
+        lines.push(`    ... ${violation.nodes.length - 5} more`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Presses Tab until the target has focus; returns the number of presses, or -1 if it never got focus
+ */
+export async function tabTo(page: Page, target: Locator, maxTabs = 40): Promise<number> {
+  for (let presses = 1; presses <= maxTabs; presses++) {
+    await page.keyboard.press('Tab');
+    if (await target.evaluate(el => el === document.activeElement || el.contains(document.activeElement))) {
+      return presses;
+    }
+  }
+  return -1;
+}
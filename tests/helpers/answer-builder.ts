@@ -0,0 +1,219 @@
+import { getSectionDefinition, SectionSchema, loadSectionSchema } from './section-schema';
+import { QUERY_INPUT_SELECTOR } from '../pages/decision-coach-page';
+import { AnswerPayload, AnswerSectionsPayload, ConceptPayload, MockAnswerFixture, MockAnswerMatch } from '../mock-backend/types';
+
+/** Answer payload whose sections may be left out, e.g. to simulate a partial backend response */
+export interface BuiltAnswerPayload {
+  query: string;
+  answer: Partial<AnswerSectionsPayload>;
+}
+
+export interface AnswerHtmlOptions {
+  /** Puts each concept's definition in a tooltip on its term (default) or renders "Term: Definition" lines */
+  conceptStyle: 'tooltip' | 'inline';
+  schema: SectionSchema;
+}
+
+export const DEFAULT_BUILDER_QUERY = 'How do I plan production under tariff uncertainty?';
+
+const DEFAULT_ANSWER: AnswerSectionsPayload = {
+  strategy: 'Treat tariffs as a range of outcomes rather than a single forecast. Build low, medium and high tariff scenarios and estimate how each changes landed cost.\n\nCommit only to production decisions that hold up across the scenarios you consider plausible.',
+  story: 'A mid-sized appliance maker modelled three tariff levels and pre-negotiated a second supplier. When the high tariff arrived, it shifted 40% of volume within weeks and kept margins close to plan.',
+  reflection_prompts: [
+    'How would each tariff scenario change your landed cost per unit?',
+    'What share of your production could move to an alternative supplier within a quarter?'
+  ],
+  concepts: [
+    { term: 'Scenario Analysis', definition: 'A method for comparing several plausible futures and planning a response for each one.' },
+    { term: 'Sensitivity Analysis', definition: 'Testing how changes in one input, such as a tariff rate, affect an outcome like profit.' }
+  ]
+};
+
+const DEFAULT_HTML_OPTIONS: Omit<AnswerHtmlOptions, 'schema'> = {
+  conceptStyle: 'tooltip'
+};
+
+/**
+ * Distinct, valid concepts for volume tests: "Concept 1" ... "Concept n"
+ */
+export function generateConcepts(count: number): ConceptPayload[] {
+  return Array.from({ length: count }, (_, i) => ({
+    term: `Concept ${i + 1}`,
+    definition: `Definition number ${i + 1}, long enough to pass the tooltip length check.`
+  }));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Fluent builder for mock answers; every section starts valid and can be replaced, emptied or removed
+ * build() gives the backend JSON, toHtml() the equivalent rendered page
+ */
+export class AnswerBuilder {
+  private query = DEFAULT_BUILDER_QUERY;
+  private readonly sections: Partial<AnswerSectionsPayload>;
+
+  constructor(sections: Partial<AnswerSectionsPayload> = DEFAULT_ANSWER) {
+    this.sections = JSON.parse(JSON.stringify(sections));
+  }
+
+  withQuery(query: string): this {
+    this.query = query;
+    return this;
+  }
+
+  /** Paragraphs are joined with blank lines, as the backend sends them */
+  withStrategy(strategy: string | string[]): this {
+    this.sections.strategy = Array.isArray(strategy) ? strategy.join('\n\n') : strategy;
+    return this;
+  }
+
+  withoutStrategy(): this {
+    delete this.sections.strategy;
+    return this;
+  }
+
+  withStory(story: string): this {
+    this.sections.story = story;
+    return this;
+  }
+
+  withoutStory(): this {
+    delete this.sections.story;
+    return this;
+  }
+
+  withReflectionPrompts(prompts: string[]): this {
+    this.sections.reflection_prompts = [...prompts];
+    return this;
+  }
+
+  withoutReflectionPrompts(): this {
+    delete this.sections.reflection_prompts;
+    return this;
+  }
+
+  withConcepts(concepts: ConceptPayload[]): this {
+    this.sections.concepts = concepts.map(concept => ({ ...concept }));
+    return this;
+  }
+
+  withConcept(term: string, definition: string): this {
+    this.sections.concepts = [...(this.sections.concepts || []), { term, definition }];
+    return this;
+  }
+
+  withoutConcepts(): this {
+    delete this.sections.concepts;
+    return this;
+  }
+
+  /**
+   * Backend JSON; sections removed with without*() are left out
+   */
+  build(): BuiltAnswerPayload {
+    return { query: this.query, answer: JSON.parse(JSON.stringify(this.sections)) };
+  }
+
+  /**
+   * Backend JSON for a complete answer; throws if a section was removed
+   */
+  buildComplete(): AnswerPayload {
+    const missing = (Object.keys(DEFAULT_ANSWER) as (keyof AnswerSectionsPayload)[]).filter(key => this.sections[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Answer is missing sections: ${missing.join(', ')}; use build() for partial answers`);
+    }
+    return this.build() as AnswerPayload;
+  }
+
+  /**
+   * Mock backend fixture serving this answer; matches the builder's query exactly unless a match is given
+   */
+  toFixture(id: string, match: MockAnswerMatch = { exact: this.query }): MockAnswerFixture {
+    return { id, match, response: this.buildComplete() };
+  }
+
+  /**
+   * Answer container as the UI renders it, using the section schema's test ids and headings
+   */
+  toAnswerHtml(options: Partial<AnswerHtmlOptions> = {}): string {
+    return renderAnswerHtml(this.build(), options);
+  }
+
+  /**
+   * Standalone page with the query box, Ask button and rendered answer, for page.setContent() or route.fulfill()
+   */
+  toHtml(options: Partial<AnswerHtmlOptions> = {}): string {
+    return renderAnswerPage(this.build(), options);
+  }
+}
+
+/**
+ * Starts a builder with a complete, valid answer
+ */
+export function anAnswer(): AnswerBuilder {
+  return new AnswerBuilder();
+}
+
+/**
+ * Starts a builder from an existing payload, e.g. a mock backend fixture
+ */
+export function anAnswerFrom(payload: BuiltAnswerPayload): AnswerBuilder {
+  return new AnswerBuilder(payload.answer).withQuery(payload.query);
+}
+
+/**
+ * Renders the answer sections the payload contains; empty sections keep their heading
+ */
+export function renderAnswerHtml(payload: BuiltAnswerPayload, options: Partial<AnswerHtmlOptions> = {}): string {
+  const config = { ...DEFAULT_HTML_OPTIONS, schema: loadSectionSchema(), ...options };
+  const { answer } = payload;
+  const section = (id: string, body: string) => {
+    const definition = getSectionDefinition(id, config.schema);
+    return `  <div data-testid="${definition.testIds[0]}">\n    <h3>${escapeHtml(definition.headings[0])}</h3>\n${body ? `${body}\n` : ''}  </div>`;
+  };
+  const list = (items: string[]) => `    <ul>\n${items.map(item => `      <li>${item}</li>`).join('\n')}\n    </ul>`;
+
+  const parts: string[] = [];
+  if (answer.strategy !== undefined) {
+    const paragraphs = answer.strategy.split(/\n\s*\n/).filter(paragraph => paragraph.trim());
+    parts.push(section('strategy', paragraphs.map(paragraph => `    <p>${escapeHtml(paragraph.trim())}</p>`).join('\n')));
+  }
+  if (answer.story !== undefined) {
+    parts.push(section('story', answer.story ? `    <p>${escapeHtml(answer.story)}</p>` : ''));
+  }
+  if (answer.reflection_prompts !== undefined) {
+    parts.push(section('reflection', list(answer.reflection_prompts.map(escapeHtml))));
+  }
+  if (answer.concepts !== undefined) {
+    const items = answer.concepts.map(({ term, definition }) => config.conceptStyle === 'tooltip'
+      ? `<span class="tooltip" title="${escapeHtml(definition)}">${escapeHtml(term)}</span>`
+      : `${escapeHtml(term)}: ${escapeHtml(definition)}`);
+    parts.push(section('concepts', list(items)));
+  }
+
+  const container = config.schema.answerContainer.match(/^\[data-testid="([^"]+)"\]$/);
+  const containerAttribute = container ? `data-testid="${container[1]}"` : 'data-testid="response"';
+  return `<div ${containerAttribute}>\n${parts.join('\n')}\n</div>`;
+}
+
+/**
+ * Full page around renderAnswerHtml(), with the query box the page object expects
+ */
+export function renderAnswerPage(payload: BuiltAnswerPayload, options: Partial<AnswerHtmlOptions> = {}): string {
+  const placeholder = QUERY_INPUT_SELECTOR.match(/placeholder\*="([^"]+)"/)?.[1] || 'Ask me anything';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>ThinkPal Mock</title></head>
+<body>
+<main>
+  <textarea placeholder="${escapeHtml(placeholder)}...">${escapeHtml(payload.query)}</textarea>
+  <button>Ask</button>
+${renderAnswerHtml(payload, options)}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,184 @@
+import { Page, Locator } from '@playwright/test';
+import { AnswerSectionName } from '../pages/decision-coach-page';
+import { SectionSchema, loadSectionSchema, getSectionDefinition, getHeadingSelector } from './section-schema';
+
+export interface ConceptEntry {
+  term: string;
+  definition: string;
+}
+
+export interface TooltipEntry {
+  term: string;
+  text: string;
+  section: AnswerSectionName;
+}
+
+export interface DecisionAnswer {
+  strategy: string[];
+  story: string;
+  reflectionPrompts: string[];
+  concepts: ConceptEntry[];
+  tooltips: TooltipEntry[];
+  missingSections: AnswerSectionName[];
+}
+
+interface RawSection {
+  heading: string;
+  text: string;
+  paragraphs: string[];
+  items: { text: string; tooltip: string }[];
+  tooltips: { term: string; text: string }[];
+}
+
+export const ANSWER_SECTION_IDS: AnswerSectionName[] = ['strategy', 'story', 'reflection', 'concepts'];
+
+/** Elements that carry a term's tooltip text */
+export const TOOLTIP_SELECTOR = 'span[class*="tooltip"], [data-tooltip], [title]';
+
+/**
+ * Finds the container element of a section, or null when it is not rendered
+ * Tries the schema's data-testid containers first, then the parent of a heading matching as a whole
+ */
+export async function findSectionContainer(
+  page: Page,
+  id: string,
+  schema: SectionSchema = loadSectionSchema()
+): Promise<Locator | null> {
+  const definition = getSectionDefinition(id, schema);
+  const container = page.locator(schema.answerContainer);
+  const scope = (await container.count()) > 0 ? container.first() : page.locator('body');
+
+  for (const testId of definition.testIds) {
+    const section = scope.locator(`[data-testid="${testId}"]`).first();
+    if (await section.isVisible()) {
+      return section;
+    }
+  }
+
+  for (const heading of definition.headings) {
+    const headingElement = scope.locator(getHeadingSelector(heading)).first();
+    if (await headingElement.isVisible()) {
+      return headingElement.locator('..');
+    }
+  }
+
+  return null;
+}
+
+async function readSection(section: Locator): Promise<RawSection> {
+  return section.evaluate((el, tooltipSelector) => {
+    const textOf = (node: Element) => ((node as HTMLElement).innerText || node.textContent || '').trim();
+    const tooltipOf = (node: Element) =>
+      node.getAttribute('data-tooltip') || node.getAttribute('title') || node.getAttribute('aria-label') || '';
+
+    const headingElement = el.querySelector('h1, h2, h3, h4, h5, h6, strong');
+    const heading = headingElement ? textOf(headingElement) : '';
+
+    const paragraphs = Array.from(el.querySelectorAll('p')).map(textOf).filter(Boolean);
+
+    const items = Array.from(el.querySelectorAll('li'))
+      .map(li => {
+        const tooltipElement = li.matches(tooltipSelector) ? li : li.querySelector(tooltipSelector);
+        return { text: textOf(li), tooltip: tooltipElement ? tooltipOf(tooltipElement).trim() : '' };
+      })
+      .filter(item => item.text);
+
+    const tooltips = Array.from(el.querySelectorAll(tooltipSelector))
+      .map(node => ({ term: textOf(node), text: tooltipOf(node).trim() }))
+      .filter(tooltip => tooltip.term || tooltip.text);
+
+    return { heading, text: textOf(el), paragraphs, items, tooltips };
+  }, TOOLTIP_SELECTOR);
+}
+
+/**
+ * Section body split into non-empty lines, without the heading line
+ */
+function bodyLines(raw: RawSection): string[] {
+  return raw.text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && line !== raw.heading);
+}
+
+/**
+ * Splits "Term: Definition" on the first colon so definitions may contain colons themselves
+ */
+export function parseConceptLine(line: string): ConceptEntry | null {
+  const index = line.indexOf(':');
+  if (index <= 0) {
+    return null;
+  }
+
+  const term = line.substring(0, index).trim();
+  const definition = line.substring(index + 1).trim();
+  return term && definition ? { term, definition } : null;
+}
+
+function parseConcepts(raw: RawSection): ConceptEntry[] {
+  const entries = raw.items.length > 0
+    ? raw.items
+    : bodyLines(raw).map(text => ({ text, tooltip: '' }));
+
+  const concepts: ConceptEntry[] = [];
+  for (const entry of entries) {
+    const parsed = parseConceptLine(entry.text);
+    if (parsed) {
+      concepts.push(parsed);
+    } else if (entry.tooltip) {
+      // Term-only entries carry their definition in the tooltip
+      concepts.push({ term: entry.text, definition: entry.tooltip });
+    }
+  }
+  return concepts;
+}
+
+/**
+ * Parses the rendered answer card into a typed model
+ * Missing sections are listed in missingSections and left empty rather than throwing
+ */
+export async function parseAnswerCard(page: Page): Promise<DecisionAnswer> {
+  const answer: DecisionAnswer = {
+    strategy: [],
+    story: '',
+    reflectionPrompts: [],
+    concepts: [],
+    tooltips: [],
+    missingSections: []
+  };
+
+  for (const name of ANSWER_SECTION_IDS) {
+    const container = await findSectionContainer(page, name);
+    if (!container) {
+      answer.missingSections.push(name);
+      continue;
+    }
+
+    const raw = await readSection(container);
+    const paragraphs = raw.paragraphs.length > 0 ? raw.paragraphs : bodyLines(raw);
+
+    switch (name) {
+      case 'strategy':
+        answer.strategy = paragraphs;
+        break;
+      case 'story':
+        answer.story = paragraphs.join('\n\n');
+        break;
+      case 'reflection':
+        answer.reflectionPrompts = raw.items.length > 0 ? raw.items.map(item => item.text) : bodyLines(raw);
+        break;
+      case 'concepts':
+        answer.concepts = parseConcepts(raw);
+        break;
+    }
+
+    answer.tooltips.push(...raw.tooltips.map(tooltip => ({ ...tooltip, section: name })));
+  }
+
+  console.log(`🧩 Parsed answer: ${answer.strategy.length} strategy paragraphs, ${answer.reflectionPrompts.length} prompts, ${answer.concepts.length} concepts, ${answer.tooltips.length} tooltips`);
+  if (answer.missingSections.length > 0) {
+    console.log(`⚠️ Missing sections: ${answer.missingSections.join(', ')}`);
+  }
+
+  return answer;
+}
@@ -0,0 +1,142 @@
+import { Page } from '@playwright/test';
+import { loadSectionSchema } from './section-schema';
+
+export type AnswerSignal = 'network' | 'container' | 'loading' | 'quiet';
+
+export interface AnswerWaitOptions {
+  /** Total budget for all signals */
+  timeoutMs: number;
+  /** How long the answer container must go without DOM mutations */
+  quietMs: number;
+  /** Backend request that produces the answer */
+  responseUrl: RegExp;
+  /** Answer container; defaults to the section schema's answerContainer */
+  containerSelector: string;
+  loadingSelector: string;
+}
+
+export interface AnswerWaitResult {
+  /** Milliseconds from arming the waiter until each signal completed; skipped signals are omitted */
+  timings: Partial<Record<AnswerSignal, number>>;
+  skipped: AnswerSignal[];
+  lastSignal: AnswerSignal;
+  totalMs: number;
+  responseStatus?: number;
+}
+
+export const DEFAULT_ANSWER_WAIT_OPTIONS: Omit<AnswerWaitOptions, 'containerSelector'> = {
+  timeoutMs: 30000,
+  quietMs: 500,
+  responseUrl: /\/(api\/)?(query|ask)(\?|$)/,
+  loadingSelector: '[class*="loading"], [class*="spinner"], [class*="loader"], [aria-busy="true"]'
+};
+
+/**
+ * Waits until the DOM under the selector has not changed for quietMs
+ */
+async function waitForDomQuiet(page: Page, selector: string, quietMs: number, timeoutMs: number): Promise<void> {
+  const settled = await page.evaluate(
+    ({ selector, quietMs, timeoutMs }) => new Promise<boolean>(resolve => {
+      const target = document.querySelector(selector) || document.body;
+      let quietTimer = setTimeout(() => finish(true), quietMs);
+      const budgetTimer = setTimeout(() => finish(false), timeoutMs);
+      const observer = new MutationObserver(() => {
+        clearTimeout(quietTimer);
+        quietTimer = setTimeout(() => finish(true), quietMs);
+      });
+
+      function finish(result: boolean) {
+        observer.disconnect();
+        clearTimeout(quietTimer);
+        clearTimeout(budgetTimer);
+        resolve(result);
+      }
+
+      observer.observe(target, { childList: true, subtree: true, characterData: true, attributes: true });
+    }),
+    { selector, quietMs, timeoutMs }
+  );
+
+  if (!settled) {
+    throw new Error(`DOM did not settle for ${quietMs}ms`);
+  }
+}
+
+/**
+ * Waits for an answer to finish rendering by combining several signals instead of fixed sleeps:
+ * - network: the backend query response arrived (only observable when `action` triggers the request)
+ * - container: the answer container is visible
+ * - loading: loading indicators have disappeared
+ * - quiet: the answer container stopped mutating
+ * All signals share one time budget; the result reports which signal finished last
+ */
+export async function waitForAnswerComplete(
+  page: Page,
+  options: Partial<AnswerWaitOptions> = {},
+  action?: () => Promise<void>
+): Promise<AnswerWaitResult> {
+  const config: AnswerWaitOptions = {
+    ...DEFAULT_ANSWER_WAIT_OPTIONS,
+    containerSelector: loadSectionSchema().answerContainer,
+    ...options
+  };
+
+  const start = Date.now();
+  const deadline = start + config.timeoutMs;
+  const remaining = () => Math.max(1, deadline - Date.now());
+  const timings: Partial<Record<AnswerSignal, number>> = {};
+  const skipped: AnswerSignal[] = [];
+  let responseStatus: number | undefined;
+
+  const mark = (signal: AnswerSignal) => {
+    timings[signal] = Date.now() - start;
+  };
+
+  // Arm the network listener before triggering the request so a fast response is not missed
+  const network = action
+    ? page
+      .waitForResponse(response => config.responseUrl.test(response.url()) && response.request().method() === 'POST', { timeout: remaining() })
+      .then(response => {
+        responseStatus = response.status();
+        mark('network');
+      })
+    : Promise.resolve().then(() => { skipped.push('network'); });
+  // Settled below; this only stops a rejection during a slow action from being reported as unhandled
+  network.catch(() => undefined);
+
+  if (action) {
+    await action();
+  }
+
+  const container = page
+    .locator(config.containerSelector)
+    .first()
+    .waitFor({ state: 'visible', timeout: remaining() })
+    .then(() => mark('container'));
+
+  // Loading indicators are only meaningful once the answer has started to render
+  const loading = container.then(async () => {
+    await page.locator(config.loadingSelector).first().waitFor({ state: 'hidden', timeout: remaining() });
+    mark('loading');
+  });
+
+  const quiet = container.then(async () => {
+    await waitForDomQuiet(page, config.containerSelector, config.quietMs, remaining());
+    mark('quiet');
+  });
+
+  const signals: Record<AnswerSignal, Promise<void>> = { network, container, loading, quiet };
+  const outcomes = await Promise.allSettled(Object.values(signals));
+
+  const pending = (Object.keys(signals) as AnswerSignal[]).filter((signal, index) => outcomes[index].status === 'rejected');
+  if (pending.length > 0) {
+    const finished = Object.entries(timings).map(([signal, ms]) => `${signal} ${ms}ms`).join(', ') || 'none';
+    throw new Error(`Answer not complete within ${config.timeoutMs}ms: waiting on ${pending.join(', ')} (finished: ${finished})`);
+  }
+
+  const [lastSignal] = (Object.entries(timings) as [AnswerSignal, number][]).sort((a, b) => b[1] - a[1])[0];
+  const result: AnswerWaitResult = { timings, skipped, lastSignal, totalMs: Date.now() - start, responseStatus };
+
+  console.log(`⏱️ Answer complete in ${result.totalMs}ms (last signal: ${lastSignal}; ${Object.entries(timings).map(([s, ms]) => `${s} ${ms}ms`).join(', ')})`);
+  return result;
+}
@@ -0,0 +1,108 @@
+import { AnswerPayload, ErrorPayload } from '../mock-backend/types';
+
+export interface ContractValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export const DEFAULT_API_URL = 'http://127.0.0.1:5000';
+
+/**
+ * Backend route that answers queries; THINKPAL_API_QUERY_PATH overrides it
+ */
+export function getQueryPath(): string {
+  return process.env.THINKPAL_API_QUERY_PATH || '/query';
+}
+
+/**
+ * Backend health route; THINKPAL_API_HEALTH_PATH overrides it
+ */
+export function getHealthPath(): string {
+  return process.env.THINKPAL_API_HEALTH_PATH || '/';
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a response body against the AnswerPayload contract, section by section
+ */
+export function validateAnswerPayload(body: unknown): ContractValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(body)) {
+    return { isValid: false, errors: ['body is not a JSON object'] };
+  }
+
+  if (!isNonEmptyString(body.query)) {
+    errors.push('query: expected a non-empty string');
+  }
+
+  const answer = body.answer;
+  if (!isRecord(answer)) {
+    errors.push('answer: expected an object');
+    return { isValid: false, errors };
+  }
+
+  if (!isNonEmptyString(answer.strategy)) {
+    errors.push('answer.strategy: expected a non-empty string');
+  }
+
+  if (!isNonEmptyString(answer.story)) {
+    errors.push('answer.story: expected a non-empty string');
+  }
+
+  if (!Array.isArray(answer.reflection_prompts) || answer.reflection_prompts.length === 0) {
+    errors.push('answer.reflection_prompts: expected a non-empty array');
+  } else {
+    answer.reflection_prompts.forEach((prompt, index) => {
+      if (!isNonEmptyString(prompt)) {
+        errors.push(`answer.reflection_prompts[${index}]: expected a non-empty string`);
+      }
+    });
+  }
+
+  if (!Array.isArray(answer.concepts) || answer.concepts.length === 0) {
+    errors.push('answer.concepts: expected a non-empty array');
+  } else {
+    answer.concepts.forEach((concept, index) => {
+      if (!isRecord(concept)) {
+        errors.push(`answer.concepts[${index}]: expected an object`);
+        return;
+      }
+      if (!isNonEmptyString(concept.term)) {
+        errors.push(`answer.concepts[${index}].term: expected a non-empty string`);
+      }
+      if (!isNonEmptyString(concept.definition)) {
+        errors.push(`answer.concepts[${index}].definition: expected a non-empty string`);
+      }
+    });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Checks an error response body against the ErrorPayload contract
+ */
+export function validateErrorPayload(body: unknown): ContractValidationResult {
+  if (!isRecord(body)) {
+    return { isValid: false, errors: ['body is not a JSON object'] };
+  }
+  return isNonEmptyString(body.error)
+    ? { isValid: true, errors: [] }
+    : { isValid: false, errors: ['error: expected a non-empty string'] };
+}
+
+export function isAnswerPayload(body: unknown): body is AnswerPayload {
+  return validateAnswerPayload(body).isValid;
+}
+
+export function isErrorPayload(body: unknown): body is ErrorPayload {
+  return validateErrorPayload(body).isValid;
+}
@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { DecisionCoachPage } from '../pages/decision-coach-page';
+import { loadSectionSchema } from './section-schema';
+import { horizontalCenterOffset } from './layout-geometry';
+
+export interface Breakpoint {
+  name: string;
+  width: number;
+  height: number;
+  /** Touch-sized layout; enables the mobile-only checks */
+  mobile: boolean;
+}
+
+export interface BreakpointMatrixConfig {
+  minTapTargetPx: number;
+  centerTolerancePx: number;
+  breakpoints: Breakpoint[];
+}
+
+export interface BreakpointCheckContext {
+  decisionCoach: DecisionCoachPage;
+  breakpoint: Breakpoint;
+  config: BreakpointMatrixConfig;
+}
+
+export interface BreakpointCheckOutcome {
+  passed: boolean;
+  detail: string;
+}
+
+export interface BreakpointCheck {
+  name: string;
+  /** Only runs at breakpoints marked mobile */
+  mobileOnly?: boolean;
+  run: (context: BreakpointCheckContext) => Promise<BreakpointCheckOutcome>;
+}
+
+export interface BreakpointCheckResult extends BreakpointCheckOutcome {
+  check: string;
+  skipped: boolean;
+}
+
+export interface BreakpointResult {
+  breakpoint: Breakpoint;
+  checks: BreakpointCheckResult[];
+  passed: boolean;
+}
+
+export const BREAKPOINTS_CONFIG_PATH = path.join(__dirname, '..', 'config', 'breakpoints.json');
+
+/** Smallest usable textarea, in px */
+const MIN_TEXTAREA_WIDTH = 200;
+const MIN_TEXTAREA_HEIGHT = 40;
+
+/**
+ * Loads the breakpoint matrix from tests/config/breakpoints.json
+ */
+export function loadBreakpointConfig(configPath: string = BREAKPOINTS_CONFIG_PATH): BreakpointMatrixConfig {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as BreakpointMatrixConfig;
+  if (!Array.isArray(config.breakpoints) || config.breakpoints.length === 0) {
+    throw new Error(`Invalid breakpoint config ${configPath}: at least one breakpoint is required`);
+  }
+  for (const breakpoint of config.breakpoints) {
+    if (!breakpoint.name || !(breakpoint.width > 0) || !(breakpoint.height > 0)) {
+      throw new Error(`Invalid breakpoint config ${configPath}: every breakpoint needs name, width and height`);
+    }
+  }
+  return config;
+}
+
+export const centeredLayoutCheck: BreakpointCheck = {
+  name: 'centered',
+  run: async ({ decisionCoach, breakpoint, config }) => {
+    const { locator, selector } = await decisionCoach.getMainWrapper();
+    const box = await locator.boundingBox();
+    if (!box) {
+      return { passed: false, detail: `${selector} has no bounding box` };
+    }
+    const offset = horizontalCenterOffset(box, breakpoint.width);
+    return { passed: offset <= config.centerTolerancePx, detail: `${selector} offset ${offset.toFixed(1)}px` };
+  }
+};
+
+export const noHorizontalScrollCheck: BreakpointCheck = {
+  name: 'no-horizontal-scroll',
+  run: async ({ decisionCoach }) => {
+    const { scrollWidth, clientWidth } = await decisionCoach.page.evaluate(() => ({
+      scrollWidth: document.documentElement.scrollWidth,
+      clientWidth: document.documentElement.clientWidth
+    }));
+    return { passed: scrollWidth <= clientWidth, detail: `scrollWidth ${scrollWidth}px, clientWidth ${clientWidth}px` };
+  }
+};
+
+export const textareaUsableCheck: BreakpointCheck = {
+  name: 'textarea-usable',
+  run: async ({ decisionCoach, breakpoint }) => {
+    const input = decisionCoach.queryInput;
+    if (!(await input.isVisible()) || !(await input.isEditable())) {
+      return { passed: false, detail: 'textarea hidden or not editable' };
+    }
+    const box = await input.boundingBox();
+    if (!box) {
+      return { passed: false, detail: 'textarea has no bounding box' };
+    }
+
+    const problems: string[] = [];
+    if (box.width < Math.min(MIN_TEXTAREA_WIDTH, breakpoint.width * 0.8)) {
+      problems.push(`width ${box.width.toFixed(0)}px`);
+    }
+    if (box.height < MIN_TEXTAREA_HEIGHT) {
+      problems.push(`height ${box.height.toFixed(0)}px`);
+    }
+    if (box.x < 0 || box.x + box.width > breakpoint.width) {
+      problems.push('extends past the viewport');
+    }
+    return {
+      passed: problems.length === 0,
+      detail: problems.length === 0 ? `${box.width.toFixed(0)}x${box.height.toFixed(0)}px` : problems.join(', ')
+    };
+  }
+};
+
+export const headingsNotClippedCheck: BreakpointCheck = {
+  name: 'headings-not-clipped',
+  run: async ({ decisionCoach, breakpoint }) => {
+    const clipped = await decisionCoach.page.evaluate(({ container, viewportWidth }) => {
+      const scope = document.querySelector(container) || document.body;
+      return Array.from(scope.querySelectorAll('h1, h2, h3, h4, h5, h6, strong'))
+        .filter(el => {
+          const rect = el.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) {
+            return false;
+          }
+          const overflowing = el.scrollWidth > el.clientWidth + 1 && getComputedStyle(el).overflowX !== 'visible';
+          return overflowing || rect.left < 0 || rect.right > viewportWidth + 1;
+        })
+        .map(el => (el.textContent || '').trim().slice(0, 40));
+    }, { container: loadSectionSchema().answerContainer, viewportWidth: breakpoint.width });
+
+    return {
+      passed: clipped.length === 0,
+      detail: clipped.length === 0 ? 'all headings fit' : `clipped: ${clipped.join(' | ')}`
+    };
+  }
+};
+
+export const tapTargetCheck: BreakpointCheck = {
+  name: 'tap-targets',
+  mobileOnly: true,
+  run: async ({ decisionCoach, config }) => {
+    const small = await decisionCoach.page.evaluate(minSize => {
+      return Array.from(document.querySelectorAll('button, a[href], input, textarea, select, [role="button"]'))
+        .filter(el => {
+          const rect = el.getBoundingClientRect();
+          return rect.width > 0 && rect.height > 0 && (rect.width < minSize || rect.height < minSize);
+        })
+        .map(el => {
+          const rect = el.getBoundingClientRect();
+          const label = ((el as HTMLElement).innerText || el.getAttribute('aria-label') || el.tagName.toLowerCase()).trim().slice(0, 30);
+          return `${label} (${rect.width.toFixed(0)}x${rect.height.toFixed(0)})`;
+        });
+    }, config.minTapTargetPx);
+
+    return {
+      passed: small.length === 0,
+      detail: small.length === 0 ? `all targets ≥ ${config.minTapTargetPx}px` : `too small: ${small.join(', ')}`
+    };
+  }
+};
+
+export const DEFAULT_BREAKPOINT_CHECKS: BreakpointCheck[] = [
+  centeredLayoutCheck,
+  noHorizontalScrollCheck,
+  textareaUsableCheck,
+  headingsNotClippedCheck,
+  tapTargetCheck
+];
+
+/**
+ * Runs every check at the current viewport; a check that throws counts as failed
+ */
+export async function runBreakpointChecks(
+  decisionCoach: DecisionCoachPage,
+  breakpoint: Breakpoint,
+  config: BreakpointMatrixConfig = loadBreakpointConfig(),
+  checks: BreakpointCheck[] = DEFAULT_BREAKPOINT_CHECKS
+): Promise<BreakpointResult> {
+  const results: BreakpointCheckResult[] = [];
+
+  for (const check of checks) {
+    if (check.mobileOnly && !breakpoint.mobile) {
+      results.push({ check: check.name, skipped: true, passed: true, detail: 'desktop breakpoint' });
+      continue;
+    }
+    try {
+      const outcome = await check.run({ decisionCoach, breakpoint, config });
+      results.push({ check: check.name, skipped: false, ...outcome });
+    } catch (error) {
+      results.push({ check: check.name, skipped: false, passed: false, detail: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { breakpoint, checks: results, passed: results.every(result => result.passed) };
+}
+
+/**
+ * Pass/fail grid for one breakpoint, one row per check
+ */
+export function formatBreakpointGrid(result: BreakpointResult): string {
+  const { breakpoint } = result;
+  const width = Math.max(...result.checks.map(check => check.check.length));
+  const lines = [`${breakpoint.name} (${breakpoint.width}x${breakpoint.height}): ${result.passed ? 'PASS' : 'FAIL'}`];
+  for (const check of result.checks) {
+    const status = check.skipped ? '–' : check.passed ? '✅' : '❌';
+    lines.push(`  ${status} ${check.check.padEnd(width)}  ${check.detail}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,179 @@
+import { Page } from '@playwright/test';
+import { ConceptEntry, DecisionAnswer, TooltipEntry, parseAnswerCard } from './answer-parser';
+import { extractTerms } from './quality-scorer';
+
+export type ConceptIssueKind = 'no-concept-entry' | 'tooltip-mismatch' | 'no-tooltip';
+
+export interface ConceptTermReport {
+  term: string;
+  concept?: ConceptEntry;
+  tooltips: TooltipEntry[];
+  /** Best share of tooltip terms found in the concept definition (0-1) */
+  similarity?: number;
+  issues: { kind: ConceptIssueKind; message: string }[];
+}
+
+export interface ConceptConsistencyResult {
+  isValid: boolean;
+  errors: string[];
+  details: ConceptTermReport[];
+}
+
+export interface ConceptConsistencyOptions {
+  /** Sections whose tooltipped terms must have a Concepts entry */
+  highlightSections: string[];
+  /** Minimum share of tooltip words that must appear in the definition */
+  minSimilarity: number;
+}
+
+export const DEFAULT_CONCEPT_CONSISTENCY_OPTIONS: ConceptConsistencyOptions = {
+  highlightSections: ['strategy', 'story'],
+  minSimilarity: 0.5
+};
+
+function singularize(word: string): string {
+  if (/yses$/.test(word)) {
+    return word.replace(/yses$/, 'ysis');
+  }
+  if (/ies$/.test(word)) {
+    return word.replace(/ies$/, 'y');
+  }
+  if (/(ss|is|us)$/.test(word)) {
+    return word;
+  }
+  return word.replace(/s$/, '');
+}
+
+/**
+ * Normalizes a term for matching: case, punctuation and plural endings are ignored
+ */
+export function normalizeTerm(term: string): string {
+  return term
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+}
+
+/**
+ * How much of the tooltip is covered by the definition
+ * 1 when they are equal or one contains the other
+ */
+export function tooltipSimilarity(tooltip: string, definition: string): number {
+  const a = tooltip.toLowerCase().replace(/\s+/g, ' ').trim();
+  const b = definition.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b || a.includes(b) || b.includes(a)) {
+    return 1;
+  }
+
+  const tooltipTerms = Array.from(new Set(extractTerms(a)));
+  if (tooltipTerms.length === 0) {
+    return 0;
+  }
+  const definitionTerms = new Set(extractTerms(b));
+  return tooltipTerms.filter(term => definitionTerms.has(term)).length / tooltipTerms.length;
+}
+
+/**
+ * Cross-checks tooltipped terms against the Concepts section
+ * - every term highlighted in Strategy/Story has a Concepts entry
+ * - tooltip text matches or summarizes that entry's definition
+ * - every concept has at least one tooltip
+ */
+export function checkConceptConsistency(
+  answer: DecisionAnswer,
+  options: Partial<ConceptConsistencyOptions> = {}
+): ConceptConsistencyResult {
+  const config = { ...DEFAULT_CONCEPT_CONSISTENCY_OPTIONS, ...options };
+  const reports = new Map<string, ConceptTermReport>();
+
+  const reportFor = (term: string): ConceptTermReport => {
+    const key = normalizeTerm(term);
+    let report = reports.get(key);
+    if (!report) {
+      report = { term, tooltips: [], issues: [] };
+      reports.set(key, report);
+    }
+    return report;
+  };
+
+  for (const concept of answer.concepts) {
+    reportFor(concept.term).concept = concept;
+  }
+
+  for (const tooltip of answer.tooltips) {
+    if (!tooltip.term) {
+      continue;
+    }
+    const key = normalizeTerm(tooltip.term);
+    // Only highlighted key terms and tooltips on known concepts are in scope
+    if (config.highlightSections.includes(tooltip.section) || reports.has(key)) {
+      reportFor(tooltip.term).tooltips.push(tooltip);
+    }
+  }
+
+  for (const report of reports.values()) {
+    if (!report.concept) {
+      const sections = Array.from(new Set(report.tooltips.map(t => t.section))).join(', ');
+      report.issues.push({ kind: 'no-concept-entry', message: `highlighted in ${sections} but missing from Concepts` });
+      continue;
+    }
+
+    if (report.tooltips.length === 0) {
+      report.issues.push({ kind: 'no-tooltip', message: 'concept has no tooltip anywhere in the answer' });
+      continue;
+    }
+
+    const definition = report.concept.definition;
+    report.similarity = Math.max(...report.tooltips.map(t => tooltipSimilarity(t.text, definition)));
+    if (report.similarity < config.minSimilarity) {
+      const tooltip = report.tooltips[0].text;
+      report.issues.push({
+        kind: 'tooltip-mismatch',
+        message: `tooltip "${tooltip.substring(0, 60)}" does not match definition "${definition.substring(0, 60)}" (${Math.round(report.similarity * 100)}% overlap)`
+      });
+    }
+  }
+
+  const details = Array.from(reports.values());
+  const errors = details.flatMap(report => report.issues.map(issue => `${report.term}: ${issue.message}`));
+  return { isValid: errors.length === 0, errors, details };
+}
+
+/**
+ * Parses the rendered answer and checks concept/tooltip consistency
+ */
+export async function validateConceptTooltips(
+  page: Page,
+  options: Partial<ConceptConsistencyOptions> = {}
+): Promise<ConceptConsistencyResult> {
+  const result = checkConceptConsistency(await parseAnswerCard(page), options);
+
+  if (result.isValid) {
+    console.log(`✅ Concept/tooltip consistency passed: ${result.details.length} terms checked`);
+  } else {
+    console.log(`❌ Concept/tooltip consistency failed: ${result.errors.length} mismatches`);
+    result.errors.forEach(error => console.log(`  - ${error}`));
+  }
+
+  return result;
+}
+
+/**
+ * Per-term report, one line per term
+ */
+export function formatConceptConsistencyReport(result: ConceptConsistencyResult): string {
+  return result.details
+    .map(report => {
+      const status = report.issues.length === 0 ? '✅' : '❌';
+      const similarity = report.similarity !== undefined ? ` [${Math.round(report.similarity * 100)}%]` : '';
+      const issues = report.issues.map(issue => ` ${issue.kind}: ${issue.message}`).join(';');
+      return `${status} ${report.term} (${report.tooltips.length} tooltip(s))${similarity}${issues}`;
+    })
+    .join('\n');
+}
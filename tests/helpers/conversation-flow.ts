@@ -0,0 +1,317 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, Route, expect } from '@playwright/test';
+import { DecisionCoachPage } from '../pages/decision-coach-page';
+import { AnswerWaitResult, DEFAULT_ANSWER_WAIT_OPTIONS, waitForAnswerComplete } from './answer-waiter';
+import { TOOLTIP_SELECTOR } from './answer-parser';
+import { loadSectionSchema } from './section-schema';
+import { loadAnswerFixtures, matchAnswerFixture } from '../mock-backend/server';
+import { AnswerPayload } from '../mock-backend/types';
+
+/** Whether a new answer is added below the earlier ones or takes their place */
+export type HistoryMode = 'append' | 'replace';
+
+/** Ask a query, or follow up on a reflection prompt (by index) of the previous answer */
+export type ConversationStep = { ask: string } | { followUp: number };
+
+export interface ConversationFlow {
+  name: string;
+  steps: ConversationStep[];
+}
+
+export interface ConversationConfig {
+  historyMode: HistoryMode;
+  /** One element per rendered answer; defaults to the section schema's answerContainer */
+  cardSelector?: string;
+  flows: ConversationFlow[];
+}
+
+export interface AnswerCardSnapshot {
+  text: string;
+  tooltips: { term: string; text: string }[];
+}
+
+export interface ConversationTurn {
+  index: number;
+  query: string;
+  /** How the query was entered: typed, or by clicking a reflection prompt */
+  input: 'typed' | 'clicked-prompt';
+  /** Answer the mock backend served for this turn */
+  answer: AnswerPayload;
+  wait: AnswerWaitResult;
+  /** Every answer card on the page once this turn finished */
+  cards: AnswerCardSnapshot[];
+  scrollY: number;
+  latestCardInViewport: boolean;
+}
+
+export interface MockConversationBackend {
+  /** Answers served so far, in order */
+  served: AnswerPayload[];
+}
+
+export interface HistoryCheckResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface CardTooltipCheckResult {
+  isValid: boolean;
+  checked: number;
+  errors: string[];
+}
+
+export const CONVERSATION_CONFIG_PATH = path.join(__dirname, '..', 'config', 'conversation-flows.json');
+
+/**
+ * Loads the scripted flows and the expected history mode from tests/config/conversation-flows.json
+ */
+export function loadConversationConfig(configPath: string = CONVERSATION_CONFIG_PATH): ConversationConfig {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as ConversationConfig;
+  if (!['append', 'replace'].includes(config.historyMode) || !Array.isArray(config.flows)) {
+    throw new Error(`Invalid conversation config ${configPath}: historyMode must be "append" or "replace" and flows is required`);
+  }
+  for (const flow of config.flows) {
+    if (!flow.name || !flow.steps || flow.steps.length === 0 || !('ask' in flow.steps[0])) {
+      throw new Error(`Invalid conversation flow "${flow.name}": it needs steps and must start with an ask step`);
+    }
+  }
+  return config;
+}
+
+export function getCardSelector(config: ConversationConfig): string {
+  return config.cardSelector || loadSectionSchema().answerContainer;
+}
+
+/**
+ * Text unique to an answer, used to tell answer cards apart
+ */
+export function answerMarker(answer: AnswerPayload): string {
+  return answer.answer.reflection_prompts[0] || answer.answer.strategy.split('.')[0];
+}
+
+/**
+ * Answers every query with its matching mock backend fixture, so each turn gets a distinct, known answer
+ */
+export async function serveMockConversation(page: Page): Promise<MockConversationBackend> {
+  const fixtures = loadAnswerFixtures();
+  const backend: MockConversationBackend = { served: [] };
+
+  await page.route(DEFAULT_ANSWER_WAIT_OPTIONS.responseUrl, async (route: Route) => {
+    if (route.request().method() !== 'POST') {
+      await route.fallback();
+      return;
+    }
+    const query = String((route.request().postDataJSON() || {}).query || '');
+    const fixture = matchAnswerFixture(query, fixtures);
+    if (!fixture || !('answer' in fixture.response)) {
+      await route.fulfill({ status: 404, headers: { 'Access-Control-Allow-Origin': '*' }, json: { error: `No mock answer for query: "${query}"` } });
+      return;
+    }
+
+    const answer: AnswerPayload = { ...fixture.response, query };
+    backend.served.push(answer);
+    await route.fulfill({
+      status: fixture.status || 200,
+      headers: { 'Access-Control-Allow-Origin': '*' },
+      contentType: 'application/json',
+      body: JSON.stringify(answer)
+    });
+  });
+
+  return backend;
+}
+
+/**
+ * Text and tooltips of every answer card, oldest first
+ */
+export async function snapshotAnswerCards(page: Page, cardSelector: string): Promise<AnswerCardSnapshot[]> {
+  return page.locator(cardSelector).evaluateAll((cards, tooltipSelector) => cards.map(card => ({
+    text: ((card as HTMLElement).innerText || card.textContent || '').trim(),
+    tooltips: Array.from(card.querySelectorAll(tooltipSelector)).map(node => ({
+      term: ((node as HTMLElement).innerText || node.textContent || '').trim(),
+      text: (node.getAttribute('data-tooltip') || node.getAttribute('title') || node.getAttribute('aria-label') || '').trim()
+    }))
+  })), TOOLTIP_SELECTOR);
+}
+
+/**
+ * Follows up on a reflection prompt of the latest answer
+ * Clicks the prompt when the UI renders it as a control, otherwise types it into the query box
+ */
+async function followUp(decisionCoach: DecisionCoachPage, prompt: string, cardSelector: string): Promise<ConversationTurn['input']> {
+  const page = decisionCoach.page;
+  const promptElement = page.locator(cardSelector).last().getByText(prompt, { exact: true }).first();
+  const clickable = (await promptElement.count()) > 0 &&
+    await promptElement.evaluate(el => !!el.closest('button, a[href], [role="button"]'));
+
+  if (!clickable) {
+    await decisionCoach.fillQuery(prompt);
+    await decisionCoach.submit();
+    return 'typed';
+  }
+
+  const submitted = page
+    .waitForRequest(request => DEFAULT_ANSWER_WAIT_OPTIONS.responseUrl.test(request.url()) && request.method() === 'POST', { timeout: 1000 })
+    .then(() => true, () => false);
+  await promptElement.click();
+  if (!(await submitted)) {
+    // The prompt only filled in the query box
+    if (!(await decisionCoach.queryInput.inputValue()).trim()) {
+      await decisionCoach.fillQuery(prompt);
+    }
+    await decisionCoach.submit();
+  }
+  return 'clicked-prompt';
+}
+
+/**
+ * Plays a scripted conversation, recording the answer cards and scroll position after each turn
+ */
+export async function runConversation(
+  decisionCoach: DecisionCoachPage,
+  flow: ConversationFlow,
+  backend: MockConversationBackend,
+  config: ConversationConfig
+): Promise<ConversationTurn[]> {
+  const page = decisionCoach.page;
+  const cardSelector = getCardSelector(config);
+  const turns: ConversationTurn[] = [];
+
+  for (const [index, step] of flow.steps.entries()) {
+    let query: string;
+    let input: ConversationTurn['input'] = 'typed';
+    let wait: AnswerWaitResult;
+
+    if ('ask' in step) {
+      query = step.ask;
+      console.log(`💬 Turn ${index + 1}: asking "${query}"`);
+      wait = await decisionCoach.askAndWait(query);
+    } else {
+      const previous = turns[turns.length - 1].answer;
+      query = previous.answer.reflection_prompts[step.followUp];
+      if (!query) {
+        throw new Error(`Flow "${flow.name}" step ${index + 1}: previous answer has no reflection prompt #${step.followUp}`);
+      }
+      console.log(`💬 Turn ${index + 1}: following up on "${query}"`);
+      wait = await waitForAnswerComplete(page, {}, async () => {
+        input = await followUp(decisionCoach, query, cardSelector);
+      });
+    }
+
+    if (backend.served.length !== index + 1) {
+      throw new Error(`Flow "${flow.name}" step ${index + 1}: expected ${index + 1} answered queries, backend served ${backend.served.length}`);
+    }
+    const answer = backend.served[index];
+
+    // In append mode the waiter may settle on an older card; wait for this turn's answer itself
+    const latestCard = page.locator(cardSelector).filter({ hasText: answerMarker(answer) }).last();
+    await expect(latestCard, `answer card for "${query}"`).toBeVisible();
+
+    turns.push({
+      index,
+      query,
+      input,
+      answer,
+      wait,
+      cards: await snapshotAnswerCards(page, cardSelector),
+      scrollY: await page.evaluate(() => window.scrollY),
+      latestCardInViewport: await latestCard.evaluate(el => {
+        const rect = el.getBoundingClientRect();
+        return rect.bottom > 0 && rect.top < window.innerHeight;
+      })
+    });
+  }
+
+  return turns;
+}
+
+/**
+ * Checks how the history rendered after every turn against the expected history mode:
+ * - append: one card per turn, earlier cards unchanged
+ * - replace: a single card holding only the latest answer
+ * In both modes the latest answer must be at least partly scrolled into view
+ */
+export function checkConversationHistory(turns: ConversationTurn[], historyMode: HistoryMode): HistoryCheckResult {
+  const errors: string[] = [];
+
+  for (const turn of turns) {
+    const label = `Turn ${turn.index + 1} ("${turn.query}")`;
+    const marker = answerMarker(turn.answer);
+
+    if (historyMode === 'append') {
+      if (turn.cards.length !== turn.index + 1) {
+        errors.push(`${label}: expected ${turn.index + 1} answer cards, found ${turn.cards.length}`);
+      }
+      for (const earlier of turns.slice(0, turn.index)) {
+        const before = earlier.cards[earlier.index];
+        const now = turn.cards[earlier.index];
+        if (!before || !now) {
+          continue;
+        }
+        if (now.text !== before.text) {
+          errors.push(`${label}: answer card ${earlier.index + 1} changed after a later turn`);
+        }
+        if (JSON.stringify(now.tooltips) !== JSON.stringify(before.tooltips)) {
+          errors.push(`${label}: tooltips of answer card ${earlier.index + 1} changed after a later turn`);
+        }
+      }
+      const latest = turn.cards[turn.cards.length - 1];
+      if (latest && !latest.text.includes(marker)) {
+        errors.push(`${label}: the last answer card does not hold this turn's answer`);
+      }
+    } else {
+      if (turn.cards.length !== 1) {
+        errors.push(`${label}: expected the answer to replace the previous one, found ${turn.cards.length} answer cards`);
+      }
+      const card = turn.cards[0];
+      if (card && !card.text.includes(marker)) {
+        errors.push(`${label}: the answer card does not hold this turn's answer`);
+      }
+      const previous = turns[turn.index - 1];
+      if (card && previous && answerMarker(previous.answer) !== marker && card.text.includes(answerMarker(previous.answer))) {
+        errors.push(`${label}: the answer card still shows the previous answer`);
+      }
+    }
+
+    if (!turn.latestCardInViewport) {
+      errors.push(`${label}: the new answer is scrolled out of view (scrollY ${turn.scrollY})`);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Hovers every tooltipped term of one answer card and checks it is still reachable and still carries its text
+ */
+export async function checkCardTooltips(page: Page, cardSelector: string, cardIndex: number): Promise<CardTooltipCheckResult> {
+  const result: CardTooltipCheckResult = { isValid: false, checked: 0, errors: [] };
+  const tooltips = page.locator(cardSelector).nth(cardIndex).locator(TOOLTIP_SELECTOR);
+  const count = await tooltips.count();
+
+  if (count === 0) {
+    result.errors.push(`Answer card ${cardIndex + 1} has no tooltips`);
+    return result;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const tooltip = tooltips.nth(i);
+    const term = ((await tooltip.textContent()) || '').trim();
+    try {
+      // hover() fails when a later answer or overlay covers the term
+      await tooltip.hover({ timeout: 2000 });
+      const text = await tooltip.getAttribute('data-tooltip') || await tooltip.getAttribute('title') || await tooltip.getAttribute('aria-label') || '';
+      if (!text.trim()) {
+        result.errors.push(`${term}: tooltip text is empty after hover`);
+      }
+    } catch (error) {
+      result.errors.push(`${term}: cannot hover (${String(error).split('\n')[0]})`);
+    }
+    result.checked++;
+  }
+
+  result.isValid = result.errors.length === 0;
+  console.log(`${result.isValid ? '✅' : '❌'} Tooltips of answer card ${cardIndex + 1}: ${result.checked - result.errors.length}/${result.checked} working`);
+  return result;
+}
@@ -0,0 +1,340 @@
+import fs from 'fs';
+import path from 'path';
+import { Page } from '@playwright/test';
+import { AnswerSectionName } from '../pages/decision-coach-page';
+import { ANSWER_SECTION_IDS, DecisionAnswer, TOOLTIP_SELECTOR, findSectionContainer, parseAnswerCard } from './answer-parser';
+import { Box, ViewportSize } from './layout-geometry';
+import { loadSectionSchema } from './section-schema';
+
+export type CrossBrowserDiffCategory = 'content' | 'layout' | 'tooltip';
+
+export interface CrossBrowserConfig {
+  queries: string[];
+  /** Project every other project's content and tooltips are compared with */
+  referenceProject: string;
+  /** Projects with similar viewports; layout is only compared within a group, against its first project */
+  layoutGroups: Record<string, string[]>;
+  tolerances: {
+    lineCount: number;
+    heightPx: number;
+    widthPx: number;
+  };
+}
+
+export interface SectionLayout {
+  id: AnswerSectionName;
+  visible: boolean;
+  box: Box | null;
+  /** Rendered text lines, so wrapping differences show up even when heights are close */
+  lineCount: number;
+}
+
+export interface TooltipInteraction {
+  term: string;
+  text: string;
+  hovered: boolean;
+  /** A visible element showing the tooltip text appeared on hover; native title tooltips never count */
+  popupVisible: boolean;
+  error?: string;
+}
+
+export interface BrowserSnapshot {
+  project: string;
+  query: string;
+  viewport: ViewportSize | null;
+  answer: DecisionAnswer;
+  sections: SectionLayout[];
+  tooltips: TooltipInteraction[];
+}
+
+export interface CrossBrowserDiff {
+  query: string;
+  category: CrossBrowserDiffCategory;
+  /** What differs, e.g. "story.lineCount" or "tooltip Scenario Analysis" */
+  subject: string;
+  referenceProject: string;
+  project: string;
+  expected: string;
+  actual: string;
+}
+
+export interface CrossBrowserReport {
+  isConsistent: boolean;
+  projects: string[];
+  queries: string[];
+  diffs: CrossBrowserDiff[];
+}
+
+export const CROSS_BROWSER_CONFIG_PATH = path.join(__dirname, '..', 'config', 'cross-browser.json');
+
+/** Attachment the spec stores each snapshot in and the reporter collects */
+export const CROSS_BROWSER_SNAPSHOT_ATTACHMENT = 'cross-browser-snapshot.json';
+
+/**
+ * Loads the queries, reference project, layout groups and tolerances from tests/config/cross-browser.json
+ */
+export function loadCrossBrowserConfig(configPath: string = CROSS_BROWSER_CONFIG_PATH): CrossBrowserConfig {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as CrossBrowserConfig;
+  if (!Array.isArray(config.queries) || config.queries.length === 0 || !config.referenceProject || !config.tolerances) {
+    throw new Error(`Invalid cross-browser config ${configPath}: queries, referenceProject and tolerances are required`);
+  }
+  return { ...config, layoutGroups: config.layoutGroups || {} };
+}
+
+/**
+ * Layout group of a project; projects not listed form a group of their own
+ */
+export function getLayoutGroup(project: string, config: CrossBrowserConfig): string {
+  const group = Object.entries(config.layoutGroups).find(([, projects]) => projects.includes(project));
+  return group ? group[0] : project;
+}
+
+/**
+ * Position, size and rendered line count of every answer section
+ */
+export async function measureSectionLayouts(page: Page): Promise<SectionLayout[]> {
+  const layouts: SectionLayout[] = [];
+  for (const id of ANSWER_SECTION_IDS) {
+    const section = await findSectionContainer(page, id);
+    const box = section ? await section.boundingBox() : null;
+    if (!section || !box) {
+      layouts.push({ id, visible: false, box: null, lineCount: 0 });
+      continue;
+    }
+
+    // Distinct line tops of all text in the section
+    const lineCount = await section.evaluate(el => {
+      const tops: number[] = [];
+      const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (!node.textContent || !node.textContent.trim()) continue;
+        const range = document.createRange();
+        range.selectNodeContents(node);
+        for (const rect of Array.from(range.getClientRects())) {
+          if (rect.height > 0 && !tops.some(top => Math.abs(top - rect.top) < 2)) {
+            tops.push(rect.top);
+          }
+        }
+      }
+      return tops.length;
+    });
+
+    layouts.push({
+      id,
+      visible: true,
+      box: { x: Math.round(box.x), y: Math.round(box.y), width: Math.round(box.width), height: Math.round(box.height) },
+      lineCount
+    });
+  }
+  return layouts;
+}
+
+/**
+ * Hovers every tooltip term in the answer and records whether a tooltip popup became visible
+ */
+export async function probeTooltips(page: Page): Promise<TooltipInteraction[]> {
+  const terms = page.locator(loadSectionSchema().answerContainer).locator(TOOLTIP_SELECTOR);
+  const count = await terms.count();
+  const interactions: TooltipInteraction[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const term = terms.nth(i);
+    const interaction: TooltipInteraction = {
+      term: ((await term.textContent()) || '').trim(),
+      text: (await term.getAttribute('data-tooltip') || await term.getAttribute('title') || await term.getAttribute('aria-label') || '').trim(),
+      hovered: false,
+      popupVisible: false
+    };
+
+    try {
+      await term.hover({ timeout: 2000 });
+      interaction.hovered = true;
+      interaction.popupVisible = await term.evaluate((el, text) => {
+        const snippet = text.slice(0, 30);
+        return Array.from(document.querySelectorAll('[role="tooltip"], [class*="tooltip"], [data-tooltip-content]')).some(candidate => {
+          if (candidate === el || candidate.contains(el)) return false;
+          const rect = candidate.getBoundingClientRect();
+          const style = getComputedStyle(candidate);
+          const shown = rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.opacity !== '0';
+          return shown && (!snippet || (candidate.textContent || '').includes(snippet));
+        });
+      }, interaction.text);
+    } catch (error) {
+      interaction.error = String(error).split('\n')[0];
+    }
+    interactions.push(interaction);
+  }
+
+  // Leave no tooltip open for later measurements
+  await page.mouse.move(0, 0);
+  return interactions;
+}
+
+/**
+ * Parsed answer, section layout and tooltip behaviour of the rendered answer in the current browser
+ */
+export async function captureBrowserSnapshot(page: Page, query: string, project: string): Promise<BrowserSnapshot> {
+  const answer = await parseAnswerCard(page);
+  const sections = await measureSectionLayouts(page);
+  const tooltips = await probeTooltips(page);
+
+  const popups = tooltips.filter(tooltip => tooltip.popupVisible).length;
+  console.log(`🌐 ${project}: ${sections.filter(section => section.visible).length} sections, ${popups}/${tooltips.length} tooltip popups`);
+  return { project, query, viewport: page.viewportSize(), answer, sections, tooltips };
+}
+
+function describeValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function diffContent(reference: BrowserSnapshot, snapshot: BrowserSnapshot): CrossBrowserDiff[] {
+  const fields: [string, (answer: DecisionAnswer) => unknown][] = [
+    ['missingSections', answer => answer.missingSections],
+    ['strategy', answer => answer.strategy],
+    ['story', answer => answer.story],
+    ['reflectionPrompts', answer => answer.reflectionPrompts],
+    ['concepts', answer => answer.concepts.map(concept => concept.term)]
+  ];
+
+  return fields
+    .filter(([, read]) => JSON.stringify(read(reference.answer)) !== JSON.stringify(read(snapshot.answer)))
+    .map(([subject, read]) => ({
+      query: reference.query,
+      category: 'content' as const,
+      subject,
+      referenceProject: reference.project,
+      project: snapshot.project,
+      expected: describeValue(read(reference.answer)),
+      actual: describeValue(read(snapshot.answer))
+    }));
+}
+
+function diffTooltips(reference: BrowserSnapshot, snapshot: BrowserSnapshot): CrossBrowserDiff[] {
+  const diffs: CrossBrowserDiff[] = [];
+  const add = (term: string, expected: string, actual: string) => diffs.push({
+    query: reference.query, category: 'tooltip', subject: `tooltip ${term}`,
+    referenceProject: reference.project, project: snapshot.project, expected, actual
+  });
+  const state = (tooltip: TooltipInteraction) =>
+    !tooltip.hovered ? `not hoverable${tooltip.error ? ` (${tooltip.error})` : ''}` : tooltip.popupVisible ? 'popup shown' : 'no popup';
+
+  const terms = new Set([...reference.tooltips, ...snapshot.tooltips].map(tooltip => tooltip.term));
+  for (const term of terms) {
+    const expected = reference.tooltips.find(tooltip => tooltip.term === term);
+    const actual = snapshot.tooltips.find(tooltip => tooltip.term === term);
+    if (!expected || !actual) {
+      add(term, expected ? 'rendered' : 'not rendered', actual ? 'rendered' : 'not rendered');
+      continue;
+    }
+    if (expected.hovered !== actual.hovered || expected.popupVisible !== actual.popupVisible) {
+      add(term, state(expected), state(actual));
+    }
+    if (expected.text !== actual.text) {
+      add(term, describeValue(expected.text), describeValue(actual.text));
+    }
+  }
+  return diffs;
+}
+
+function diffLayout(reference: BrowserSnapshot, snapshot: BrowserSnapshot, config: CrossBrowserConfig): CrossBrowserDiff[] {
+  const diffs: CrossBrowserDiff[] = [];
+  const add = (subject: string, expected: unknown, actual: unknown) => diffs.push({
+    query: reference.query, category: 'layout', subject,
+    referenceProject: reference.project, project: snapshot.project, expected: String(expected), actual: String(actual)
+  });
+  const order = (layouts: SectionLayout[]) => layouts
+    .filter(layout => layout.box)
+    .sort((a, b) => a.box!.y - b.box!.y)
+    .map(layout => layout.id)
+    .join(', ');
+
+  for (const expected of reference.sections) {
+    const actual = snapshot.sections.find(layout => layout.id === expected.id);
+    if (!actual || actual.visible !== expected.visible) {
+      add(`${expected.id}.visible`, expected.visible, actual ? actual.visible : false);
+      continue;
+    }
+    if (!expected.box || !actual.box) continue;
+
+    const { lineCount, heightPx, widthPx } = config.tolerances;
+    if (Math.abs(expected.lineCount - actual.lineCount) > lineCount) {
+      add(`${expected.id}.lineCount`, expected.lineCount, actual.lineCount);
+    }
+    if (Math.abs(expected.box.height - actual.box.height) > heightPx) {
+      add(`${expected.id}.height`, `${expected.box.height}px`, `${actual.box.height}px`);
+    }
+    if (Math.abs(expected.box.width - actual.box.width) > widthPx) {
+      add(`${expected.id}.width`, `${expected.box.width}px`, `${actual.box.width}px`);
+    }
+  }
+
+  if (order(reference.sections) !== order(snapshot.sections)) {
+    add('section order', order(reference.sections), order(snapshot.sections));
+  }
+  return diffs;
+}
+
+/**
+ * Compares the snapshots of each query: content and tooltips against the reference project,
+ * layout against the first project of the same layout group
+ */
+export function diffBrowserSnapshots(
+  snapshots: BrowserSnapshot[],
+  config: CrossBrowserConfig = loadCrossBrowserConfig()
+): CrossBrowserReport {
+  const projects = Array.from(new Set(snapshots.map(snapshot => snapshot.project)));
+  const queries = Array.from(new Set(snapshots.map(snapshot => snapshot.query)));
+  const diffs: CrossBrowserDiff[] = [];
+
+  for (const query of queries) {
+    const forQuery = snapshots.filter(snapshot => snapshot.query === query);
+    const reference = forQuery.find(snapshot => snapshot.project === config.referenceProject) || forQuery[0];
+
+    for (const project of projects.filter(name => !forQuery.some(snapshot => snapshot.project === name))) {
+      diffs.push({ query, category: 'content', subject: 'snapshot', referenceProject: reference.project, project, expected: 'captured', actual: 'missing' });
+    }
+
+    for (const snapshot of forQuery.filter(snapshot => snapshot !== reference)) {
+      diffs.push(...diffContent(reference, snapshot), ...diffTooltips(reference, snapshot));
+    }
+
+    const groups = new Map<string, BrowserSnapshot[]>();
+    for (const snapshot of forQuery) {
+      const group = getLayoutGroup(snapshot.project, config);
+      groups.set(group, [...(groups.get(group) || []), snapshot]);
+    }
+    for (const [group, members] of groups) {
+      const order = config.layoutGroups[group] || [];
+      const [groupReference, ...others] = [...members].sort((a, b) => order.indexOf(a.project) - order.indexOf(b.project));
+      for (const snapshot of others) {
+        diffs.push(...diffLayout(groupReference, snapshot, config));
+      }
+    }
+  }
+
+  return { isConsistent: diffs.length === 0, projects, queries, diffs };
+}
+
+/**
+ * Human-readable list of disagreements, grouped by query and category
+ */
+export function formatCrossBrowserReport(report: CrossBrowserReport): string {
+  const lines = [`Cross-browser diff: ${report.projects.join(', ')}`];
+  if (report.isConsistent) {
+    lines.push(`All browsers agree on ${report.queries.length} queries`);
+    return lines.join('\n');
+  }
+
+  for (const query of report.queries) {
+    const diffs = report.diffs.filter(diff => diff.query === query);
+    lines.push('', `Query: "${query}" (${diffs.length} differences)`);
+    if (diffs.length === 0) continue;
+    for (const category of ['content', 'tooltip', 'layout'] as CrossBrowserDiffCategory[]) {
+      for (const diff of diffs.filter(d => d.category === category)) {
+        lines.push(`  [${category}] ${diff.subject} on ${diff.project}: ${diff.actual} (${diff.referenceProject}: ${diff.expected})`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,149 @@
+import { Page, Route } from '@playwright/test';
+import { DEFAULT_ANSWER_WAIT_OPTIONS } from './answer-waiter';
+import { loadAnswerFixtures } from '../mock-backend/server';
+import { BuiltAnswerPayload, anAnswerFrom } from './answer-builder';
+
+export type FaultKind =
+  | 'server-error'
+  | 'timeout'
+  | 'malformed-json'
+  | 'partial-sections'
+  | 'rate-limit'
+  | 'connection-dropped'
+  | 'slow-response';
+
+export interface FaultOptions {
+  /** Number of query requests to fault before letting requests through to the backend again */
+  times: number;
+  /** Delay before the fault is delivered */
+  delayMs: number;
+  urlPattern: RegExp;
+}
+
+export interface FaultHandle {
+  kind: FaultKind;
+  /** Query requests faulted so far */
+  hits: number;
+  remove: () => Promise<void>;
+}
+
+export const FAULT_DESCRIPTIONS: Record<FaultKind, string> = {
+  'server-error': 'backend answers 500 Internal Server Error',
+  'timeout': 'request hangs past the frontend timeout, then times out',
+  'malformed-json': 'backend answers 200 with a truncated JSON body',
+  'partial-sections': 'backend answers 200 with only some answer sections',
+  'rate-limit': 'backend answers 429 Too Many Requests',
+  'connection-dropped': 'connection is reset before a response arrives',
+  'slow-response': 'backend answers normally, but only after a long delay'
+};
+
+/** Faults after which the backend still answers; the rest should surface an error */
+export const NON_FAILING_FAULTS: FaultKind[] = ['slow-response'];
+
+/** Delay of slow-response faults unless delayMs is given */
+export const SLOW_RESPONSE_DELAY_MS = 5000;
+
+/**
+ * How long timeout faults hold the request before aborting it, unless delayMs is given.
+ * Long enough for a frontend request timeout to fire first; pass a larger delayMs if the frontend waits longer
+ */
+export const TIMEOUT_FAULT_DELAY_MS = 15000;
+
+/** Delay per fault kind when delayMs is not given; other kinds fail at once */
+export const DEFAULT_FAULT_DELAYS: Partial<Record<FaultKind, number>> = {
+  'timeout': TIMEOUT_FAULT_DELAY_MS,
+  'slow-response': SLOW_RESPONSE_DELAY_MS
+};
+
+export const DEFAULT_FAULT_OPTIONS: FaultOptions = {
+  times: 1,
+  delayMs: 0,
+  urlPattern: DEFAULT_ANSWER_WAIT_OPTIONS.responseUrl
+};
+
+// Faulted responses bypass the backend, so they must carry the CORS headers it would send
+const CORS_HEADERS = { 'Access-Control-Allow-Origin': '*' };
+
+/**
+ * Canned answer with the story and concepts sections removed
+ */
+export function buildPartialPayload(): BuiltAnswerPayload {
+  const fixture = loadAnswerFixtures().find(f => f.id === 'tariff-uncertainty');
+  if (!fixture || !('answer' in fixture.response)) {
+    throw new Error('Mock fixture "tariff-uncertainty" is required for partial-sections faults');
+  }
+  return anAnswerFrom(fixture.response).withoutStory().withoutConcepts().build();
+}
+
+async function deliverFault(route: Route, kind: FaultKind): Promise<void> {
+  switch (kind) {
+    case 'server-error':
+      await route.fulfill({ status: 500, headers: CORS_HEADERS, contentType: 'application/json', body: JSON.stringify({ error: 'Internal Server Error' }) });
+      break;
+    case 'timeout':
+      // The frontend may already have given up on the request, leaving nothing to abort
+      await route.abort('timedout').catch(() => undefined);
+      break;
+    case 'malformed-json':
+      await route.fulfill({ status: 200, headers: CORS_HEADERS, contentType: 'application/json', body: '{"query": "tariffs", "answer": {"strategy": "Treat tariffs as' });
+      break;
+    case 'partial-sections':
+      await route.fulfill({ status: 200, headers: CORS_HEADERS, contentType: 'application/json', body: JSON.stringify(buildPartialPayload()) });
+      break;
+    case 'rate-limit':
+      await route.fulfill({
+        status: 429,
+        headers: { ...CORS_HEADERS, 'Retry-After': '1' },
+        contentType: 'application/json',
+        body: JSON.stringify({ error: 'Too Many Requests' })
+      });
+      break;
+    case 'connection-dropped':
+      await route.abort('connectionreset');
+      break;
+    case 'slow-response':
+      // The delay has already passed; hand the request on to the backend
+      await route.fallback();
+      break;
+  }
+}
+
+/**
+ * Makes the next backend query request(s) fail in the given way
+ * Once `times` requests have been faulted, later requests reach the backend so retries can succeed
+ */
+export async function injectBackendFault(
+  page: Page,
+  kind: FaultKind,
+  options: Partial<FaultOptions> = {}
+): Promise<FaultHandle> {
+  const config = {
+    ...DEFAULT_FAULT_OPTIONS,
+    ...(DEFAULT_FAULT_DELAYS[kind] !== undefined ? { delayMs: DEFAULT_FAULT_DELAYS[kind] } : {}),
+    ...options
+  };
+
+  const handler = async (route: Route) => {
+    // Preflights and exhausted faults go to the backend untouched
+    if (route.request().method() !== 'POST' || handle.hits >= config.times) {
+      await route.fallback();
+      return;
+    }
+
+    handle.hits++;
+    console.log(`💥 Injecting ${kind} fault (${handle.hits}/${config.times}): ${FAULT_DESCRIPTIONS[kind]}`);
+    if (config.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, config.delayMs));
+    }
+    await deliverFault(route, kind);
+  };
+
+  const handle: FaultHandle = {
+    kind,
+    hits: 0,
+    remove: () => page.unroute(config.urlPattern, handler)
+  };
+
+  await page.route(config.urlPattern, handler);
+  return handle;
+}
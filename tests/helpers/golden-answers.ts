@@ -0,0 +1,234 @@
+import fs from 'fs';
+import path from 'path';
+import { DecisionAnswer } from './answer-parser';
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  description?: string;
+}
+
+export interface GoldenSnapshot {
+  id: string;
+  query: string;
+  recordedAt: string;
+  answer: DecisionAnswer;
+}
+
+export type GoldenDiffKind =
+  | 'section-missing'
+  | 'section-added'
+  | 'concept-added'
+  | 'concept-removed'
+  | 'prompt-count'
+  | 'length-delta'
+  | 'paragraph-count'
+  | 'tooltip-count';
+
+export interface GoldenDiffEntry {
+  section: string;
+  kind: GoldenDiffKind;
+  /** Regressions fail the test, info entries only appear in the report */
+  severity: 'regression' | 'info';
+  message: string;
+}
+
+export interface GoldenDiff {
+  id: string;
+  query: string;
+  entries: GoldenDiffEntry[];
+  hasRegressions: boolean;
+}
+
+export interface GoldenDiffOptions {
+  /** Relative section length change that counts as a regression, e.g. 0.3 for 30% */
+  maxLengthDeltaRatio: number;
+  /** Allowed change in the number of reflection prompts */
+  maxPromptCountDelta: number;
+}
+
+export const DEFAULT_GOLDEN_DIFF_OPTIONS: GoldenDiffOptions = {
+  maxLengthDeltaRatio: 0.3,
+  maxPromptCountDelta: 0
+};
+
+export const GOLDEN_QUERIES_PATH = path.join(__dirname, '..', 'config', 'golden-queries.json');
+export const GOLDEN_SNAPSHOT_DIR = path.join(__dirname, '..', 'golden');
+
+/** Backend the snapshots were recorded against; mock and live answers never share a baseline */
+export type GoldenBackend = 'mock' | 'live';
+
+/**
+ * 'mock' when THINKPAL_MOCK_BACKEND=1, else 'live'
+ */
+export function getGoldenBackend(): GoldenBackend {
+  return process.env.THINKPAL_MOCK_BACKEND === '1' ? 'mock' : 'live';
+}
+
+/**
+ * Snapshot directory of one backend: tests/golden/<mock|live>/
+ */
+export function goldenSnapshotDir(backend: GoldenBackend = getGoldenBackend()): string {
+  return path.join(GOLDEN_SNAPSHOT_DIR, backend);
+}
+
+/**
+ * True when THINKPAL_UPDATE_GOLDEN=1, i.e. snapshots should be re-recorded instead of compared
+ */
+export function isGoldenUpdateMode(): boolean {
+  return process.env.THINKPAL_UPDATE_GOLDEN === '1';
+}
+
+/**
+ * Loads the curated query set the golden suite runs
+ */
+export function loadGoldenQueries(queriesPath: string = GOLDEN_QUERIES_PATH): GoldenQuery[] {
+  return JSON.parse(fs.readFileSync(queriesPath, 'utf-8')) as GoldenQuery[];
+}
+
+export function goldenSnapshotPath(id: string, snapshotDir: string = goldenSnapshotDir()): string {
+  return path.join(snapshotDir, `${id}.json`);
+}
+
+/**
+ * Reads a recorded snapshot, or null when none exists yet
+ */
+export function readGoldenSnapshot(id: string, snapshotDir: string = goldenSnapshotDir()): GoldenSnapshot | null {
+  const file = goldenSnapshotPath(id, snapshotDir);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as GoldenSnapshot;
+}
+
+export function writeGoldenSnapshot(snapshot: GoldenSnapshot, snapshotDir: string = goldenSnapshotDir()): string {
+  const file = goldenSnapshotPath(snapshot.id, snapshotDir);
+  fs.mkdirSync(snapshotDir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+  return file;
+}
+
+function sectionLengths(answer: DecisionAnswer): Record<string, number> {
+  return {
+    strategy: answer.strategy.join('\n\n').length,
+    story: answer.story.length,
+    reflection: answer.reflectionPrompts.join('\n').length,
+    concepts: answer.concepts.map(c => `${c.term}: ${c.definition}`).join('\n').length
+  };
+}
+
+/**
+ * Compares a parsed answer with its golden snapshot section by section
+ */
+export function diffAnswers(
+  baseline: GoldenSnapshot,
+  current: DecisionAnswer,
+  options: Partial<GoldenDiffOptions> = {}
+): GoldenDiff {
+  const config = { ...DEFAULT_GOLDEN_DIFF_OPTIONS, ...options };
+  const entries: GoldenDiffEntry[] = [];
+  const previous = baseline.answer;
+
+  for (const section of current.missingSections) {
+    if (!previous.missingSections.includes(section)) {
+      entries.push({ section, kind: 'section-missing', severity: 'regression', message: 'section is no longer rendered' });
+    }
+  }
+  for (const section of previous.missingSections) {
+    if (!current.missingSections.includes(section)) {
+      entries.push({ section, kind: 'section-added', severity: 'info', message: 'section is now rendered' });
+    }
+  }
+
+  const previousTerms = new Map(previous.concepts.map(c => [c.term.toLowerCase(), c.term]));
+  const currentTerms = new Map(current.concepts.map(c => [c.term.toLowerCase(), c.term]));
+  for (const [key, term] of previousTerms) {
+    if (!currentTerms.has(key)) {
+      entries.push({ section: 'concepts', kind: 'concept-removed', severity: 'regression', message: `- ${term}` });
+    }
+  }
+  for (const [key, term] of currentTerms) {
+    if (!previousTerms.has(key)) {
+      entries.push({ section: 'concepts', kind: 'concept-added', severity: 'regression', message: `+ ${term}` });
+    }
+  }
+
+  const promptDelta = current.reflectionPrompts.length - previous.reflectionPrompts.length;
+  if (promptDelta !== 0) {
+    entries.push({
+      section: 'reflection',
+      kind: 'prompt-count',
+      severity: Math.abs(promptDelta) > config.maxPromptCountDelta ? 'regression' : 'info',
+      message: `prompt count ${previous.reflectionPrompts.length} → ${current.reflectionPrompts.length}`
+    });
+  }
+
+  if (current.strategy.length !== previous.strategy.length) {
+    entries.push({
+      section: 'strategy',
+      kind: 'paragraph-count',
+      severity: 'info',
+      message: `paragraph count ${previous.strategy.length} → ${current.strategy.length}`
+    });
+  }
+
+  if (current.tooltips.length !== previous.tooltips.length) {
+    entries.push({
+      section: 'tooltips',
+      kind: 'tooltip-count',
+      severity: 'info',
+      message: `tooltip count ${previous.tooltips.length} → ${current.tooltips.length}`
+    });
+  }
+
+  const previousLengths = sectionLengths(previous);
+  const currentLengths = sectionLengths(current);
+  for (const section of Object.keys(previousLengths)) {
+    const before = previousLengths[section];
+    const after = currentLengths[section];
+    if (before === 0 || before === after) {
+      continue;
+    }
+
+    const ratio = (after - before) / before;
+    const percent = `${ratio > 0 ? '+' : ''}${Math.round(ratio * 100)}%`;
+    entries.push({
+      section,
+      kind: 'length-delta',
+      severity: Math.abs(ratio) > config.maxLengthDeltaRatio ? 'regression' : 'info',
+      message: `length ${before} → ${after} chars (${percent})`
+    });
+  }
+
+  return {
+    id: baseline.id,
+    query: baseline.query,
+    entries,
+    hasRegressions: entries.some(e => e.severity === 'regression')
+  };
+}
+
+/**
+ * Renders a diff as a plain-text report grouped by section
+ */
+export function formatAnswerDiff(diff: GoldenDiff): string {
+  const lines = [`Golden answer diff: ${diff.id}`, `Query: "${diff.query}"`, ''];
+
+  if (diff.entries.length === 0) {
+    lines.push('No differences from the recorded snapshot.');
+    return lines.join('\n');
+  }
+
+  const sections = Array.from(new Set(diff.entries.map(e => e.section)));
+  for (const section of sections) {
+    lines.push(`[${section}]`);
+    for (const entry of diff.entries.filter(e => e.section === section)) {
+      const marker = entry.severity === 'regression' ? '❌' : 'ℹ️';
+      lines.push(`  ${marker} ${entry.kind}: ${entry.message}`);
+    }
+  }
+
+  const regressions = diff.entries.filter(e => e.severity === 'regression').length;
+  lines.push('', `${regressions} regression(s), ${diff.entries.length - regressions} informational change(s)`);
+  return lines.join('\n');
+}
@@ -0,0 +1,247 @@
+import { Page, Locator, ExpectMatcherState, MatcherReturnType } from '@playwright/test';
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface TrackedElementMove {
+  selector: string;
+  /** Largest horizontal / vertical displacement from the starting position, in px */
+  dx: number;
+  dy: number;
+}
+
+export interface LayoutShiftResult {
+  /** False when the browser has no layout-shift entries (Firefox, WebKit); cumulativeShift is then 0 */
+  supported: boolean;
+  /** Sum of layout-shift values not caused by recent input, as in CLS */
+  cumulativeShift: number;
+  shiftCount: number;
+  /** Displacement of the tracked elements, measured in every browser */
+  moves: TrackedElementMove[];
+  maxMovePx: number;
+}
+
+export interface LayoutShiftOptions {
+  /** Elements that must not move while the answer renders, e.g. the query input */
+  trackSelectors: string[];
+}
+
+const DEFAULT_CENTER_TOLERANCE = 5;
+
+/**
+ * Distance between the box's horizontal center and the container's center
+ */
+export function horizontalCenterOffset(box: Box, containerWidth: number, containerX = 0): number {
+  return Math.abs(box.x + box.width / 2 - (containerX + containerWidth / 2));
+}
+
+/**
+ * How far the box sticks out of the viewport horizontally (left and right), 0 when it fits
+ */
+export function viewportOverflow(box: Box, viewport: ViewportSize): { left: number; right: number } {
+  return {
+    left: Math.max(0, -box.x),
+    right: Math.max(0, box.x + box.width - viewport.width)
+  };
+}
+
+/**
+ * Overlapping area of two boxes in px², shrinking both by the tolerance first
+ */
+export function overlapArea(a: Box, b: Box, tolerance = 0): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) - tolerance;
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) - tolerance;
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Indexes of boxes that start above the bottom of the previous box
+ */
+export function verticalOrderViolations(boxes: Box[], tolerance = 1): number[] {
+  const violations: number[] = [];
+  for (let i = 1; i < boxes.length; i++) {
+    const previousBottom = boxes[i - 1].y + boxes[i - 1].height;
+    if (boxes[i].y + tolerance < previousBottom) {
+      violations.push(i);
+    }
+  }
+  return violations;
+}
+
+async function requireBox(locator: Locator, label = locator.toString()): Promise<Box> {
+  const box = await locator.boundingBox();
+  if (!box) {
+    throw new Error(`Bounding box not available for ${label}`);
+  }
+  return box;
+}
+
+function requireViewport(locator: Locator): ViewportSize {
+  const viewport = locator.page().viewportSize();
+  if (!viewport) {
+    throw new Error('Viewport size not available');
+  }
+  return viewport;
+}
+
+function result(state: ExpectMatcherState, name: string, pass: boolean, detail: string): MatcherReturnType {
+  return {
+    pass,
+    name,
+    message: () => `${name}${state.isNot ? ' (negated)' : ''}: ${detail}`
+  };
+}
+
+/**
+ * Layout matchers registered on the expect exported by tests/fixtures.ts
+ */
+export const layoutMatchers = {
+  async toBeHorizontallyCentered(
+    this: ExpectMatcherState,
+    locator: Locator,
+    options: { tolerance?: number; within?: Locator } = {}
+  ) {
+    const tolerance = options.tolerance ?? DEFAULT_CENTER_TOLERANCE;
+    const box = await requireBox(locator);
+    const container = options.within ? await requireBox(options.within) : { x: 0, width: requireViewport(locator).width };
+    const offset = horizontalCenterOffset(box, container.width, container.x);
+    return result(this, 'toBeHorizontallyCentered', offset <= tolerance,
+      `center offset ${offset.toFixed(2)}px, tolerance ${tolerance}px (box x=${box.x}, width=${box.width}; container width=${container.width})`);
+  },
+
+  async toNotOverflowViewport(this: ExpectMatcherState, locator: Locator, options: { tolerance?: number } = {}) {
+    const tolerance = options.tolerance ?? 1;
+    const box = await requireBox(locator);
+    const viewport = requireViewport(locator);
+    const overflow = viewportOverflow(box, viewport);
+    return result(this, 'toNotOverflowViewport', overflow.left <= tolerance && overflow.right <= tolerance,
+      `overflows left by ${overflow.left.toFixed(2)}px and right by ${overflow.right.toFixed(2)}px in a ${viewport.width}px viewport`);
+  },
+
+  async toHaveNoOverlapWith(this: ExpectMatcherState, locator: Locator, other: Locator, options: { tolerance?: number } = {}) {
+    const area = overlapArea(await requireBox(locator), await requireBox(other), options.tolerance ?? 0);
+    return result(this, 'toHaveNoOverlapWith', area === 0, `overlaps ${other.toString()} by ${area.toFixed(0)}px²`);
+  },
+
+  async toStayWithinMaxWidth(this: ExpectMatcherState, locator: Locator, maxWidth: number) {
+    const box = await requireBox(locator);
+    return result(this, 'toStayWithinMaxWidth', box.width <= maxWidth, `width ${box.width.toFixed(2)}px, max ${maxWidth}px`);
+  },
+
+  /**
+   * Receiver comes first, followed by the elements expected below it in order
+   */
+  async toKeepVerticalOrder(this: ExpectMatcherState, locator: Locator, below: Locator[], options: { tolerance?: number } = {}) {
+    const locators = [locator, ...below];
+    const boxes: Box[] = [];
+    for (const item of locators) {
+      boxes.push(await requireBox(item));
+    }
+    const violations = verticalOrderViolations(boxes, options.tolerance);
+    const detail = violations.length === 0
+      ? `${locators.length} elements stacked in order`
+      : violations.map(i => `${locators[i].toString()} starts at y=${boxes[i].y} above the bottom of the previous element`).join('; ');
+    return result(this, 'toKeepVerticalOrder', violations.length === 0, detail);
+  }
+};
+
+declare global {
+  interface Window {
+    __thinkpalLayoutShift?: {
+      supported: boolean;
+      cumulativeShift: number;
+      shiftCount: number;
+      moves: TrackedElementMove[];
+      stop: () => void;
+    };
+  }
+}
+
+/**
+ * Runs the action while recording layout shifts and how far the tracked elements move
+ * Uses layout-shift performance entries where available, element displacement everywhere
+ */
+export async function measureLayoutShift(
+  page: Page,
+  action: () => Promise<unknown>,
+  options: LayoutShiftOptions
+): Promise<LayoutShiftResult> {
+  await page.evaluate(selectors => {
+    const supported = typeof PerformanceObserver !== 'undefined' &&
+      (PerformanceObserver.supportedEntryTypes || []).includes('layout-shift');
+    const state = { supported, cumulativeShift: 0, shiftCount: 0, moves: [] as TrackedElementMove[], stop: () => {} };
+    window.__thinkpalLayoutShift = state;
+
+    let observer: PerformanceObserver | null = null;
+    if (supported) {
+      observer = new PerformanceObserver(list => {
+        for (const entry of list.getEntries() as (PerformanceEntry & { value: number; hadRecentInput: boolean })[]) {
+          if (!entry.hadRecentInput) {
+            state.cumulativeShift += entry.value;
+            state.shiftCount++;
+          }
+        }
+      });
+      observer.observe({ type: 'layout-shift', buffered: false });
+    }
+
+    const tracked = selectors.map(selector => {
+      const el = document.querySelector(selector);
+      const rect = el ? el.getBoundingClientRect() : null;
+      return { selector, el, left: rect ? rect.left + window.scrollX : 0, top: rect ? rect.top + window.scrollY : 0, dx: 0, dy: 0 };
+    });
+    const measure = () => {
+      for (const item of tracked) {
+        if (!item.el || !item.el.isConnected) continue;
+        const rect = item.el.getBoundingClientRect();
+        item.dx = Math.max(item.dx, Math.abs(rect.left + window.scrollX - item.left));
+        item.dy = Math.max(item.dy, Math.abs(rect.top + window.scrollY - item.top));
+      }
+    };
+    let frame = 0;
+    const loop = () => {
+      measure();
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    state.stop = () => {
+      cancelAnimationFrame(frame);
+      measure();
+      if (observer) {
+        // Deliver entries still queued in the observer
+        for (const entry of observer.takeRecords() as (PerformanceEntry & { value: number; hadRecentInput: boolean })[]) {
+          if (!entry.hadRecentInput) {
+            state.cumulativeShift += entry.value;
+            state.shiftCount++;
+          }
+        }
+        observer.disconnect();
+      }
+      state.moves = tracked.map(({ selector, dx, dy }) => ({ selector, dx, dy }));
+    };
+  }, options.trackSelectors);
+
+  await action();
+
+  const measured = await page.evaluate(() => {
+    const state = window.__thinkpalLayoutShift!;
+    state.stop();
+    const { supported, cumulativeShift, shiftCount, moves } = state;
+    delete window.__thinkpalLayoutShift;
+    return { supported, cumulativeShift, shiftCount, moves };
+  });
+
+  const maxMovePx = Math.max(0, ...measured.moves.map(move => Math.max(move.dx, move.dy)));
+  console.log(`📐 Layout shift: CLS ${measured.supported ? measured.cumulativeShift.toFixed(4) : 'n/a'}, max tracked move ${maxMovePx.toFixed(1)}px`);
+  return { ...measured, maxMovePx };
+}
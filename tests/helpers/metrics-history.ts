@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { TestInfo } from '@playwright/test';
+import { AnswerWaitResult } from './answer-waiter';
+import { SectionValidationResult } from './tooltip-checker';
+
+/**
+ * One line of the metrics history file
+ * Metric names ending in "Ms" are latencies (lower is better); all others are content sizes (higher is better)
+ */
+export interface MetricsRecord {
+  runId: string;
+  timestamp: string;
+  query: string;
+  project: string;
+  test: string;
+  metrics: Record<string, number>;
+}
+
+export interface AnswerMetricsInput {
+  /** Frontend response time measured by checkAppReadiness */
+  appResponseMs?: number;
+  wait?: AnswerWaitResult;
+  sections?: SectionValidationResult[];
+  tooltipCount?: number;
+}
+
+export const DEFAULT_METRICS_HISTORY_FILE = path.join('metrics-history', 'metrics.jsonl');
+
+/** Prefix of per-section character count metrics */
+export const SECTION_METRIC_PREFIX = 'section:';
+
+/**
+ * History file location; THINKPAL_METRICS_HISTORY overrides it
+ */
+export function getMetricsHistoryFile(): string {
+  return process.env.THINKPAL_METRICS_HISTORY || DEFAULT_METRICS_HISTORY_FILE;
+}
+
+/**
+ * Id shared by every test of one run, set by the global setup
+ */
+export function getRunId(): string {
+  return process.env.THINKPAL_RUN_ID || new Date().toISOString();
+}
+
+/**
+ * Appends one record as a JSON line; safe to call from parallel workers
+ */
+export function appendMetrics(record: MetricsRecord, file: string = getMetricsHistoryFile()): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(record) + '\n');
+}
+
+/**
+ * Flattens answer timings, section sizes and tooltip counts into named metrics
+ */
+export function buildAnswerMetrics(input: AnswerMetricsInput): Record<string, number> {
+  const metrics: Record<string, number> = {};
+
+  if (input.appResponseMs !== undefined) {
+    metrics.appResponseMs = input.appResponseMs;
+  }
+  if (input.wait) {
+    // The container signal fires when the first section appears
+    if (input.wait.timings.container !== undefined) {
+      metrics.firstSectionMs = input.wait.timings.container;
+    }
+    metrics.fullAnswerMs = input.wait.totalMs;
+  }
+  if (input.sections) {
+    const rendered = input.sections.filter(section => section.characterCount > 0);
+    for (const section of rendered) {
+      metrics[`${SECTION_METRIC_PREFIX}${section.sectionName}`] = section.characterCount;
+    }
+    metrics.answerChars = rendered.reduce((total, section) => total + section.characterCount, 0);
+  }
+  if (input.tooltipCount !== undefined) {
+    metrics.tooltipCount = input.tooltipCount;
+  }
+
+  return metrics;
+}
+
+/**
+ * Builds and appends the metrics of one answered query
+ * Trends and regressions: npm run metrics:trends
+ */
+export function recordAnswerMetrics(testInfo: TestInfo, query: string, input: AnswerMetricsInput): MetricsRecord {
+  const record: MetricsRecord = {
+    runId: getRunId(),
+    timestamp: new Date().toISOString(),
+    query,
+    project: testInfo.project.name,
+    test: testInfo.title,
+    metrics: buildAnswerMetrics(input)
+  };
+
+  appendMetrics(record);
+  console.log(`📈 Metrics recorded for "${query}" (${Object.keys(record.metrics).length} values)`);
+  return record;
+}
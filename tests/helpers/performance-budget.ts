@@ -0,0 +1,318 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, Response } from '@playwright/test';
+import { AnswerWaitResult } from './answer-waiter';
+
+export type PerformancePhase = 'landing' | 'answer';
+
+export type PerformanceMetric =
+  | 'ttfbMs'
+  | 'fcpMs'
+  | 'domContentLoadedMs'
+  | 'loadMs'
+  | 'lcpMs'
+  | 'cls'
+  | 'longTaskCount'
+  | 'totalBlockingTimeMs'
+  | 'scriptKb'
+  | 'firstSectionMs'
+  | 'fullAnswerMs';
+
+/** Measured values; metrics the browser cannot report are left out */
+export type PerformanceSample = Partial<Record<PerformanceMetric, number>>;
+
+/** Upper limit per metric */
+export type PerformanceBudgets = Partial<Record<PerformanceMetric, number>>;
+
+export interface PerformanceBudgetConfig {
+  /** Query answered by the mock fixture in the answer phase */
+  query: string;
+  budgets: Record<PerformancePhase, PerformanceBudgets>;
+  /** Per-project overrides, merged over the phase budgets */
+  projects?: Record<string, Partial<Record<PerformancePhase, PerformanceBudgets>>>;
+}
+
+export interface BudgetCheck {
+  metric: PerformanceMetric;
+  budget: number;
+  value?: number;
+  status: 'pass' | 'fail' | 'unsupported';
+}
+
+export interface BudgetCheckResult {
+  isValid: boolean;
+  phase: PerformancePhase;
+  checks: BudgetCheck[];
+  errors: string[];
+}
+
+export interface ScriptSizeSummary {
+  files: number;
+  bytes: number;
+  /** Largest scripts first */
+  largest: { url: string; bytes: number }[];
+}
+
+export interface AnswerPerformance {
+  sample: PerformanceSample;
+  wait: AnswerWaitResult;
+}
+
+/** Main-thread time beyond this per long task counts as blocking */
+export const LONG_TASK_BLOCKING_THRESHOLD_MS = 50;
+
+export const PERFORMANCE_BUDGETS_PATH = path.join(__dirname, '..', 'config', 'performance-budgets.json');
+
+interface RecordedEntries {
+  supported: { lcp: boolean; layoutShift: boolean; longTask: boolean };
+  lcp: number | null;
+  layoutShifts: { startTime: number; value: number; hadRecentInput: boolean }[];
+  longTasks: { startTime: number; duration: number }[];
+  flush: () => void;
+}
+
+declare global {
+  interface Window {
+    __thinkpalPerf?: RecordedEntries;
+  }
+}
+
+/**
+ * Loads the budgets from tests/config/performance-budgets.json
+ */
+export function loadPerformanceBudgets(configPath: string = PERFORMANCE_BUDGETS_PATH): PerformanceBudgetConfig {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as PerformanceBudgetConfig;
+  if (!config.query || !config.budgets || !config.budgets.landing || !config.budgets.answer) {
+    throw new Error(`Invalid performance budget config ${configPath}: query, budgets.landing and budgets.answer are required`);
+  }
+  return config;
+}
+
+/**
+ * Budgets for a phase on a project: phase budgets, then project overrides
+ */
+export function resolveBudgets(
+  phase: PerformancePhase,
+  projectName: string,
+  config: PerformanceBudgetConfig = loadPerformanceBudgets()
+): PerformanceBudgets {
+  return {
+    ...config.budgets[phase],
+    ...(config.projects?.[projectName]?.[phase] || {})
+  };
+}
+
+/**
+ * Registers LCP, layout-shift and long task observers before any page script runs
+ * Call before navigating; entry types the browser does not support are reported as unsupported
+ */
+export async function installPerformanceObservers(page: Page): Promise<void> {
+  await page.addInitScript(() => {
+    const supportedTypes = typeof PerformanceObserver !== 'undefined' ? PerformanceObserver.supportedEntryTypes || [] : [];
+    const observers: PerformanceObserver[] = [];
+    const state: RecordedEntries = {
+      supported: {
+        lcp: supportedTypes.includes('largest-contentful-paint'),
+        layoutShift: supportedTypes.includes('layout-shift'),
+        longTask: supportedTypes.includes('longtask')
+      },
+      lcp: null,
+      layoutShifts: [],
+      longTasks: [],
+      flush: () => observers.forEach(observer => observer.takeRecords().forEach(record))
+    };
+
+    function record(entry: PerformanceEntry) {
+      if (entry.entryType === 'largest-contentful-paint') {
+        state.lcp = entry.startTime;
+      } else if (entry.entryType === 'layout-shift') {
+        const shift = entry as PerformanceEntry & { value: number; hadRecentInput: boolean };
+        state.layoutShifts.push({ startTime: shift.startTime, value: shift.value, hadRecentInput: shift.hadRecentInput });
+      } else if (entry.entryType === 'longtask') {
+        state.longTasks.push({ startTime: entry.startTime, duration: entry.duration });
+      }
+    }
+
+    for (const type of ['largest-contentful-paint', 'layout-shift', 'longtask']) {
+      if (!supportedTypes.includes(type)) continue;
+      const observer = new PerformanceObserver(list => list.getEntries().forEach(record));
+      observer.observe({ type, buffered: true });
+      observers.push(observer);
+    }
+
+    window.__thinkpalPerf = state;
+  });
+}
+
+/**
+ * Records the size of every script the page loads; call before navigating and await the result afterwards
+ */
+export function trackScriptSizes(page: Page): () => Promise<ScriptSizeSummary> {
+  const sizes: Promise<{ url: string; bytes: number }>[] = [];
+
+  page.on('response', (response: Response) => {
+    if (response.request().resourceType() !== 'script') {
+      return;
+    }
+    sizes.push(
+      response.body()
+        .then(body => body.length)
+        // Redirects and evicted bodies have no body; fall back to the declared length
+        .catch(() => Number(response.headers()['content-length']) || 0)
+        .then(bytes => ({ url: response.url(), bytes }))
+    );
+  });
+
+  return async () => {
+    const scripts = await Promise.all(sizes);
+    return {
+      files: scripts.length,
+      bytes: scripts.reduce((total, script) => total + script.bytes, 0),
+      largest: scripts.slice().sort((a, b) => b.bytes - a.bytes).slice(0, 5)
+    };
+  };
+}
+
+/**
+ * Cumulative layout shift and blocking time from recorded entries; shifts right after input are excluded unless includeInputShifts
+ */
+export function summarizeEntries(
+  entries: Pick<RecordedEntries, 'supported' | 'layoutShifts' | 'longTasks'>,
+  since = 0,
+  includeInputShifts = false
+): PerformanceSample {
+  const sample: PerformanceSample = {};
+
+  if (entries.supported.layoutShift) {
+    sample.cls = entries.layoutShifts
+      .filter(shift => shift.startTime >= since && (includeInputShifts || !shift.hadRecentInput))
+      .reduce((total, shift) => total + shift.value, 0);
+  }
+  if (entries.supported.longTask) {
+    const tasks = entries.longTasks.filter(task => task.startTime >= since);
+    sample.longTaskCount = tasks.length;
+    sample.totalBlockingTimeMs = Math.round(
+      tasks.reduce((total, task) => total + Math.max(0, task.duration - LONG_TASK_BLOCKING_THRESHOLD_MS), 0)
+    );
+  }
+  return sample;
+}
+
+async function readEntries(page: Page): Promise<Omit<RecordedEntries, 'flush'> & { now: number }> {
+  return page.evaluate(() => {
+    const state = window.__thinkpalPerf;
+    if (!state) {
+      throw new Error('Performance observers are not installed; call installPerformanceObservers() before navigating');
+    }
+    state.flush();
+    const { supported, lcp, layoutShifts, longTasks } = state;
+    return { supported, lcp, layoutShifts, longTasks, now: performance.now() };
+  });
+}
+
+/**
+ * Navigation timing, paint, LCP, CLS, long tasks and script size of the loaded landing page
+ */
+export async function collectLandingPerformance(
+  page: Page,
+  scriptSizes: () => Promise<ScriptSizeSummary>
+): Promise<{ sample: PerformanceSample; scripts: ScriptSizeSummary }> {
+  const timing = await page.evaluate(() => {
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+    return {
+      ttfb: navigation ? navigation.responseStart : undefined,
+      domContentLoaded: navigation ? navigation.domContentLoadedEventEnd : undefined,
+      load: navigation && navigation.loadEventEnd > 0 ? navigation.loadEventEnd : undefined,
+      fcp: fcp ? fcp.startTime : undefined
+    };
+  });
+  const entries = await readEntries(page);
+  const scripts = await scriptSizes();
+
+  const sample: PerformanceSample = {
+    ...summarizeEntries(entries),
+    scriptKb: Math.round(scripts.bytes / 1024)
+  };
+  const round = (value: number | undefined) => (value === undefined ? undefined : Math.round(value));
+  const measured: [PerformanceMetric, number | undefined][] = [
+    ['ttfbMs', round(timing.ttfb)],
+    ['fcpMs', round(timing.fcp)],
+    ['domContentLoadedMs', round(timing.domContentLoaded)],
+    ['loadMs', round(timing.load)],
+    ['lcpMs', entries.supported.lcp && entries.lcp !== null ? Math.round(entries.lcp) : undefined]
+  ];
+  for (const [metric, value] of measured) {
+    if (value !== undefined) {
+      sample[metric] = value;
+    }
+  }
+
+  return { sample, scripts };
+}
+
+/**
+ * Runs the action that asks a query and waits for the answer, measuring render timings,
+ * layout shifts and long tasks caused by the answer
+ */
+export async function measureAnswerPerformance(
+  page: Page,
+  action: () => Promise<AnswerWaitResult>
+): Promise<AnswerPerformance> {
+  const { now: start } = await readEntries(page);
+  const wait = await action();
+  const entries = await readEntries(page);
+
+  // Clicking Ask flags the next 500ms of shifts as input-driven, which would hide the answer's own shifts
+  const sample: PerformanceSample = { ...summarizeEntries(entries, start, true), fullAnswerMs: wait.totalMs };
+  if (wait.timings.container !== undefined) {
+    sample.firstSectionMs = wait.timings.container;
+  }
+  return { sample, wait };
+}
+
+/**
+ * Compares a sample with its budgets; metrics without a measurement are unsupported, not failures
+ */
+export function checkPerformanceBudgets(
+  phase: PerformancePhase,
+  sample: PerformanceSample,
+  budgets: PerformanceBudgets
+): BudgetCheckResult {
+  const checks: BudgetCheck[] = (Object.entries(budgets) as [PerformanceMetric, number][]).map(([metric, budget]) => {
+    const value = sample[metric];
+    if (value === undefined) {
+      return { metric, budget, status: 'unsupported' };
+    }
+    return { metric, budget, value, status: value <= budget ? 'pass' : 'fail' };
+  });
+
+  const errors = checks
+    .filter(check => check.status === 'fail')
+    .map(check => `${check.metric} ${formatMetricValue(check.metric, check.value!)} exceeds budget ${formatMetricValue(check.metric, check.budget)}`);
+
+  return { isValid: errors.length === 0, phase, checks, errors };
+}
+
+function formatMetricValue(metric: PerformanceMetric, value: number): string {
+  if (metric === 'cls') {
+    return value.toFixed(3);
+  }
+  if (metric.endsWith('Ms')) {
+    return `${value}ms`;
+  }
+  return metric === 'scriptKb' ? `${value}KB` : `${value}`;
+}
+
+/**
+ * One line per budget, for logs and test attachments
+ */
+export function formatBudgetReport(result: BudgetCheckResult, projectName: string): string {
+  const icons = { pass: '✅', fail: '❌', unsupported: '➖' };
+  const lines = [`Performance budget (${result.phase}, ${projectName}): ${result.isValid ? 'within budget' : `${result.errors.length} over budget`}`];
+  for (const check of result.checks) {
+    const value = check.value === undefined ? 'not supported' : formatMetricValue(check.metric, check.value);
+    lines.push(`  ${icons[check.status]} ${check.metric.padEnd(20)} ${value.padStart(14)} / ${formatMetricValue(check.metric, check.budget)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,85 @@
+import { TestInfo } from '@playwright/test';
+import { SectionValidationResult, TooltipValidationResult } from './tooltip-checker';
+import { AnswerQualityReport } from './quality-scorer';
+
+/**
+ * Annotation type carrying validator results to the quality dashboard reporter
+ * Annotations also land in results.json, which is what the dashboard's trends are built from
+ */
+export const QUALITY_ANNOTATION = 'thinkpal-quality';
+
+export interface SectionQualityEntry {
+  sectionName: string;
+  isValid: boolean;
+  required?: boolean;
+  characterCount: number;
+  error?: string;
+}
+
+export interface TooltipQualityEntry {
+  isValid: boolean;
+  tooltipCount: number;
+  validTooltips: number;
+  errors: string[];
+}
+
+export interface QualityAnnotationData {
+  query: string;
+  sections?: SectionQualityEntry[];
+  tooltips?: TooltipQualityEntry;
+  /** Overall and per-section scores from the quality scorer, 0-100 */
+  score?: { overall: number; sections: Record<string, number> };
+}
+
+/**
+ * Records validator results on the running test; repeated calls for the same query are merged by the reporter
+ */
+export function annotateQuality(
+  testInfo: TestInfo,
+  query: string,
+  results: {
+    sections?: SectionValidationResult[];
+    tooltips?: TooltipValidationResult;
+    quality?: AnswerQualityReport;
+  }
+): void {
+  const data: QualityAnnotationData = { query };
+
+  if (results.sections) {
+    // Section text is left out to keep results.json small
+    data.sections = results.sections.map(({ sectionName, isValid, required, characterCount, error }) => ({
+      sectionName, isValid, required, characterCount, error
+    }));
+  }
+  if (results.tooltips) {
+    const { isValid, tooltipCount, validTooltips, errors } = results.tooltips;
+    data.tooltips = { isValid, tooltipCount, validTooltips, errors };
+  }
+  if (results.quality) {
+    data.score = {
+      overall: results.quality.overall,
+      sections: Object.fromEntries(results.quality.sections.map(section => [section.sectionId, section.score]))
+    };
+  }
+
+  testInfo.annotations.push({ type: QUALITY_ANNOTATION, description: JSON.stringify(data) });
+}
+
+/**
+ * Merges the quality annotations of one test, later annotations overriding earlier fields
+ */
+export function readQualityAnnotations(annotations: { type: string; description?: string }[]): QualityAnnotationData | null {
+  let merged: QualityAnnotationData | null = null;
+  for (const annotation of annotations) {
+    if (annotation.type !== QUALITY_ANNOTATION || !annotation.description) {
+      continue;
+    }
+    try {
+      const data = JSON.parse(annotation.description) as QualityAnnotationData;
+      merged = { ...(merged || {}), ...data };
+    } catch {
+      // Ignore annotations written by an incompatible version
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,309 @@
+import { DecisionAnswer } from './answer-parser';
+
+export interface QualityContext {
+  query: string;
+  sectionId: string;
+  /** Whole section text */
+  text: string;
+  /** List entries for list sections (reflection prompts, "Term: Definition" concepts) */
+  items: string[];
+}
+
+export interface QualityCheckResult {
+  /** 0 (worst) to 1 (best) */
+  score: number;
+  reasons: string[];
+}
+
+export interface QualityScorer {
+  name: string;
+  weight: number;
+  /** Section ids the scorer applies to; all sections when omitted */
+  sections?: string[];
+  score: (context: QualityContext) => QualityCheckResult;
+}
+
+export interface SectionQualityScore {
+  sectionId: string;
+  /** Weighted score from 0 to 100 */
+  score: number;
+  checks: { name: string; score: number; weight: number; reasons: string[] }[];
+  reasons: string[];
+}
+
+export interface AnswerQualityReport {
+  query: string;
+  overall: number;
+  sections: SectionQualityScore[];
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'how', 'what', 'why', 'when', 'where', 'which', 'who', 'should', 'could',
+  'would', 'can', 'do', 'does', 'did', 'my', 'our', 'your', 'you', 'with', 'under', 'from', 'into',
+  'about', 'this', 'that', 'these', 'those', 'have', 'has', 'been', 'was', 'were', 'will', 'is', 'of'
+]);
+
+/**
+ * Lower-cased content words with simple suffix stemming
+ */
+export function extractTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-zÀ-ɏ]+/g) || [])
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(word => word.replace(/(ing|ed|ies|es|s)$/, ''))
+    .filter(word => word.length >= 3);
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length <= 3) {
+    return 1;
+  }
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+/**
+ * Flesch-Kincaid grade level of a passage
+ */
+export function readingGrade(text: string): number {
+  const sentences = Math.max(1, splitSentences(text).length);
+  const words = text.match(/[A-Za-z]+/g) || [];
+  if (words.length === 0) {
+    return 0;
+  }
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+export const relevanceScorer: QualityScorer = {
+  name: 'query-relevance',
+  weight: 2,
+  sections: ['strategy', 'story'],
+  score: ({ query, text }) => {
+    const queryTerms = Array.from(new Set(extractTerms(query)));
+    if (queryTerms.length === 0) {
+      return { score: 1, reasons: [] };
+    }
+
+    const sectionTerms = new Set(extractTerms(text));
+    const matched = queryTerms.filter(term => sectionTerms.has(term));
+    // Covering half of the query terms is enough for full marks
+    const score = Math.min(1, (matched.length / queryTerms.length) * 2);
+    const missing = queryTerms.filter(term => !sectionTerms.has(term));
+
+    return {
+      score,
+      reasons: score < 1 ? [`mentions ${matched.length}/${queryTerms.length} query terms (missing: ${missing.join(', ')})`] : []
+    };
+  }
+};
+
+export const duplicateSentenceScorer: QualityScorer = {
+  name: 'duplicate-sentences',
+  weight: 1,
+  score: ({ text }) => {
+    const sentences = splitSentences(text).map(s => s.toLowerCase().replace(/\s+/g, ' '));
+    if (sentences.length === 0) {
+      return { score: 1, reasons: [] };
+    }
+
+    const duplicates = sentences.length - new Set(sentences).size;
+    return {
+      score: 1 - duplicates / sentences.length,
+      reasons: duplicates > 0 ? [`${duplicates} duplicated sentence(s)`] : []
+    };
+  }
+};
+
+const ELLIPSIS_ENDING = /(\.\.\.|…)$/;
+const DANGLING_ENDING = /(\b(and|or|but|the|a|an|of|to|for|with|in|on)|[,:;–—-])$/i;
+
+/**
+ * Prose paragraphs must end with terminal punctuation; list entries (e.g. concept definitions)
+ * may omit the full stop but must not stop mid-phrase
+ */
+export function looksTruncated(entry: string, isListEntry: boolean): boolean {
+  const trimmed = entry.trim();
+  if (!trimmed) {
+    return false;
+  }
+  if (ELLIPSIS_ENDING.test(trimmed) || DANGLING_ENDING.test(trimmed)) {
+    return true;
+  }
+  return !isListEntry && !/[.!?)"'”’]$/.test(trimmed);
+}
+
+export const truncationScorer: QualityScorer = {
+  name: 'truncated-ending',
+  weight: 2,
+  score: ({ text, items }) => {
+    const isList = items.length > 0;
+    const entries = isList ? items : text.split(/\n{2,}/).filter(paragraph => paragraph.trim());
+    if (entries.length === 0) {
+      return { score: 1, reasons: [] };
+    }
+    const truncated = entries.filter(entry => looksTruncated(entry, isList));
+
+    return {
+      score: 1 - truncated.length / entries.length,
+      reasons: truncated.map(entry => `looks truncated: "…${entry.trim().slice(-40)}"`)
+    };
+  }
+};
+
+const MARKUP_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'markdown bold/italic', pattern: /\*\*|__|(^|\s)\*[^*\s][^*]*\*(\s|$)/m },
+  { label: 'markdown heading', pattern: /^#{1,6}\s/m },
+  { label: 'markdown code', pattern: /`/ },
+  { label: 'markdown link', pattern: /\[[^\]]+\]\([^)]+\)/ },
+  { label: 'HTML tag', pattern: /<\/?[a-z][a-z0-9]*(\s[^>]*)?>/i },
+  { label: 'HTML entity', pattern: /&(amp|lt|gt|quot|nbsp|#\d+);/ }
+];
+
+export const markupLeftoverScorer: QualityScorer = {
+  name: 'markup-leftovers',
+  weight: 2,
+  score: ({ text }) => {
+    const hits = MARKUP_PATTERNS.filter(({ pattern }) => pattern.test(text));
+    return {
+      score: Math.max(0, 1 - hits.length * 0.5),
+      reasons: hits.map(hit => `contains ${hit.label}`)
+    };
+  }
+};
+
+export const readingLevelScorer: QualityScorer = {
+  name: 'reading-level',
+  weight: 1,
+  sections: ['strategy', 'story'],
+  score: ({ text }) => {
+    const grade = readingGrade(text);
+    const [min, max] = [6, 16];
+    if (grade >= min && grade <= max) {
+      return { score: 1, reasons: [] };
+    }
+
+    const distance = grade < min ? min - grade : grade - max;
+    return {
+      score: Math.max(0, 1 - distance / 6),
+      reasons: [`reading grade ${grade.toFixed(1)} outside ${min}-${max}`]
+    };
+  }
+};
+
+export const listStructureScorer: QualityScorer = {
+  name: 'list-structure',
+  weight: 2,
+  sections: ['reflection', 'concepts'],
+  score: ({ sectionId, items }) => {
+    if (items.length === 0) {
+      return { score: 0, reasons: ['no list entries'] };
+    }
+
+    const reasons: string[] = [];
+    const empty = items.filter(item => !item.trim()).length;
+    if (empty > 0) {
+      reasons.push(`${empty} empty entr${empty === 1 ? 'y' : 'ies'}`);
+    }
+
+    const duplicates = items.length - new Set(items.map(item => item.toLowerCase().trim())).size;
+    if (duplicates > 0) {
+      reasons.push(`${duplicates} duplicated entr${duplicates === 1 ? 'y' : 'ies'}`);
+    }
+
+    if (sectionId === 'reflection') {
+      const notQuestions = items.filter(item => !item.trim().endsWith('?')).length;
+      if (notQuestions > 0) {
+        reasons.push(`${notQuestions} prompt(s) are not phrased as questions`);
+      }
+      const tooLong = items.filter(item => item.length > 300).length;
+      if (tooLong > 0) {
+        reasons.push(`${tooLong} prompt(s) longer than 300 chars`);
+      }
+    }
+
+    if (sectionId === 'concepts') {
+      const malformed = items.filter(item => {
+        const index = item.indexOf(':');
+        return index <= 0 || item.substring(0, index).length >= item.substring(index + 1).length;
+      }).length;
+      if (malformed > 0) {
+        reasons.push(`${malformed} concept(s) without a definition longer than the term`);
+      }
+    }
+
+    return { score: Math.max(0, 1 - reasons.length / 3), reasons };
+  }
+};
+
+export const DEFAULT_QUALITY_SCORERS: QualityScorer[] = [
+  relevanceScorer,
+  duplicateSentenceScorer,
+  truncationScorer,
+  markupLeftoverScorer,
+  readingLevelScorer,
+  listStructureScorer
+];
+
+/**
+ * Scores one section with every applicable scorer and combines them by weight
+ */
+export function scoreSection(context: QualityContext, scorers: QualityScorer[] = DEFAULT_QUALITY_SCORERS): SectionQualityScore {
+  const applicable = scorers.filter(scorer => !scorer.sections || scorer.sections.includes(context.sectionId));
+  const checks = applicable.map(scorer => {
+    const result = scorer.score(context);
+    return { name: scorer.name, score: result.score, weight: scorer.weight, reasons: result.reasons };
+  });
+
+  const totalWeight = checks.reduce((total, check) => total + check.weight, 0);
+  const weighted = checks.reduce((total, check) => total + check.score * check.weight, 0);
+
+  return {
+    sectionId: context.sectionId,
+    score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 100,
+    checks,
+    reasons: checks.flatMap(check => check.reasons.map(reason => `${check.name}: ${reason}`))
+  };
+}
+
+/**
+ * Scores every rendered section of a parsed answer
+ */
+export function scoreAnswer(
+  answer: DecisionAnswer,
+  query: string,
+  scorers: QualityScorer[] = DEFAULT_QUALITY_SCORERS
+): AnswerQualityReport {
+  const contexts: QualityContext[] = [
+    { query, sectionId: 'strategy', text: answer.strategy.join('\n\n'), items: [] },
+    { query, sectionId: 'story', text: answer.story, items: [] },
+    { query, sectionId: 'reflection', text: answer.reflectionPrompts.join('\n'), items: answer.reflectionPrompts },
+    {
+      query,
+      sectionId: 'concepts',
+      text: answer.concepts.map(c => `${c.term}: ${c.definition}`).join('\n'),
+      items: answer.concepts.map(c => `${c.term}: ${c.definition}`)
+    }
+  ].filter(context => !(answer.missingSections as string[]).includes(context.sectionId));
+
+  const sections = contexts.map(context => scoreSection(context, scorers));
+  const overall = sections.length > 0
+    ? Math.round(sections.reduce((total, section) => total + section.score, 0) / sections.length)
+    : 0;
+
+  return { query, overall, sections };
+}
+
+/**
+ * Sections scoring below the minimum, for use in assertions
+ */
+export function findLowQualitySections(report: AnswerQualityReport, minScore: number): SectionQualityScore[] {
+  return report.sections.filter(section => section.score < minScore);
+}
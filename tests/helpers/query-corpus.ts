@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { DecisionAnswer } from './answer-parser';
+import { normalizeTerm } from './concept-consistency';
+
+export interface CorpusEntry {
+  id: string;
+  query: string;
+  tags: string[];
+  /** At least one of these concepts must appear in the answer */
+  expectedConcepts?: string[];
+}
+
+export const QUERY_CORPUS_PATH = path.join(__dirname, '..', 'config', 'query-corpus.json');
+
+/**
+ * Annotation type the corpus spec uses to hand an entry's tags to the reporter
+ */
+export const CORPUS_TAGS_ANNOTATION = 'corpus-tags';
+
+/**
+ * Loads the query corpus, optionally restricted to entries carrying one of the given tags
+ * THINKPAL_CORPUS_TAGS=ethics,ambiguous narrows a run from the command line
+ */
+export function loadQueryCorpus(
+  corpusPath: string = QUERY_CORPUS_PATH,
+  tags: string[] = (process.env.THINKPAL_CORPUS_TAGS || '').split(',').map(tag => tag.trim()).filter(Boolean)
+): CorpusEntry[] {
+  const entries = JSON.parse(fs.readFileSync(corpusPath, 'utf-8')) as CorpusEntry[];
+
+  const ids = new Set<string>();
+  for (const entry of entries) {
+    if (!entry.id || !entry.query || !Array.isArray(entry.tags) || entry.tags.length === 0) {
+      throw new Error(`Invalid query corpus ${corpusPath}: every entry needs id, query and at least one tag`);
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`Invalid query corpus ${corpusPath}: duplicate id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+  }
+
+  return tags.length > 0
+    ? entries.filter(entry => entry.tags.some(tag => tags.includes(tag)))
+    : entries;
+}
+
+/**
+ * Expected concepts the answer mentions, matched like concept terms (case and plurals ignored)
+ */
+export function findExpectedConcepts(entry: CorpusEntry, answer: DecisionAnswer): string[] {
+  const terms = new Set(answer.concepts.map(concept => normalizeTerm(concept.term)));
+  return (entry.expectedConcepts || []).filter(concept => terms.has(normalizeTerm(concept)));
+}
@@ -1,4 +1,8 @@
-import { Page } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { Page, APIRequestContext, request } from '@playwright/test';
+import { runWithRetry, RetryPolicy } from './retry-helper';
+import { getHealthPath, getQueryPath, validateAnswerPayload } from './api-contract';
 
 export interface ReadinessCheckResult {
   isReady: boolean;
@@ -129,4 +133,223 @@ export async function validateAppInterface(page: Page): Promise<{
     errors.push(`Error validating app interface: ${error}`);
     return { isValid: false, errors };
   }
-} 
\ No newline at end of file
+} 
+export type ReadinessComponent = 'frontend' | 'backend' | 'canary';
+
+/** Every component, in probe order */
+export const READINESS_COMPONENTS: ReadinessComponent[] = ['frontend', 'backend', 'canary'];
+
+/** The parts of a Playwright project (configured or resolved) that decide what it needs */
+export interface ReadinessProject {
+  name?: string;
+  metadata?: { readiness?: ReadinessComponent[] } & Record<string, unknown>;
+}
+
+export interface ComponentProbeResult {
+  component: ReadinessComponent;
+  url: string;
+  isReady: boolean;
+  /** Latency of the last attempt */
+  latencyMs?: number;
+  status?: number;
+  attempts: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  isReady: boolean;
+  checkedAt: string;
+  totalMs: number;
+  components: ComponentProbeResult[];
+  /** First failing component and why, for the abort message */
+  reason?: string;
+}
+
+export interface ReadinessProbeOptions {
+  /** Only needed when the frontend is probed */
+  frontendUrl?: string;
+  backendUrl: string;
+  canaryQuery: string;
+  /** Components to probe; they still run in frontend, backend, canary order */
+  components: ReadinessComponent[];
+  /** Per-request timeout */
+  timeoutMs: number;
+  retryPolicy: Partial<RetryPolicy>;
+}
+
+export const DEFAULT_READINESS_PROBE_OPTIONS: Omit<ReadinessProbeOptions, 'frontendUrl' | 'backendUrl'> = {
+  canaryQuery: 'How do I plan production under tariff uncertainty?',
+  components: READINESS_COMPONENTS,
+  timeoutMs: 30000,
+  // Services may still be starting, so every probe failure is worth another try
+  retryPolicy: { maxRetries: 3, baseDelay: 1000, retryUnclassified: true, budgetMs: 60000 }
+};
+
+export const READINESS_REPORT_PATH = path.join('test-results', 'readiness-report.json');
+
+type ProbeCheck = (api: APIRequestContext, url: string, options: ReadinessProbeOptions) => Promise<number>;
+
+const probeChecks: Record<ReadinessComponent, ProbeCheck> = {
+  // The Vite dev server answers with its index.html shell
+  frontend: async (api, url, { timeoutMs }) => {
+    const response = await api.get(url, { timeout: timeoutMs });
+    if (response.status() !== 200) {
+      throw new Error(`HTTP ${response.status()}`);
+    }
+    if (!/<script|id="root"/i.test(await response.text())) {
+      throw new Error('Response is not the app HTML shell');
+    }
+    return response.status();
+  },
+  backend: async (api, url, { timeoutMs }) => {
+    const response = await api.get(url, { timeout: timeoutMs });
+    if (response.status() !== 200) {
+      throw new Error(`HTTP ${response.status()}`);
+    }
+    return response.status();
+  },
+  // End-to-end: the backend must produce a complete answer, not just be listening
+  canary: async (api, url, { canaryQuery, timeoutMs }) => {
+    const response = await api.post(url, { data: { query: canaryQuery }, timeout: timeoutMs });
+    if (response.status() !== 200) {
+      throw new Error(`HTTP ${response.status()}`);
+    }
+    const contract = validateAnswerPayload(await response.json());
+    if (!contract.isValid) {
+      throw new Error(`Incomplete answer: ${contract.errors.join('; ')}`);
+    }
+    return response.status();
+  }
+};
+
+async function probeComponent(
+  api: APIRequestContext,
+  component: ReadinessComponent,
+  url: string,
+  options: ReadinessProbeOptions
+): Promise<ComponentProbeResult> {
+  let latencyMs: number | undefined;
+  const result = await runWithRetry(async () => {
+    const startTime = Date.now();
+    try {
+      return await probeChecks[component](api, url, options);
+    } finally {
+      latencyMs = Date.now() - startTime;
+    }
+  }, `Readiness probe: ${component}`, options.retryPolicy);
+
+  const probe: ComponentProbeResult = {
+    component,
+    url,
+    isReady: result.succeeded,
+    latencyMs,
+    status: result.value,
+    attempts: result.attempts.length
+  };
+  if (!result.succeeded) {
+    probe.error = result.error instanceof Error ? result.error.message.split('\n')[0] : String(result.error);
+  }
+  console.log(`${probe.isReady ? '✅' : '❌'} ${component} ${url}: ${probe.isReady ? `${latencyMs}ms` : probe.error}`);
+  return probe;
+}
+
+/**
+ * Project names passed with --project, or undefined when every project runs
+ * Global setup runs before Playwright filters the projects, so the command line is read directly
+ */
+export function getProjectFilter(argv: string[] = process.argv): string[] | undefined {
+  const names: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--project=')) {
+      names.push(argv[i].slice('--project='.length));
+    } else if (argv[i] === '--project') {
+      // Like the CLI, take every following argument up to the next option
+      while (i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+        names.push(argv[++i]);
+      }
+    }
+  }
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Projects selected by the --project filter: case-insensitive names, '*' as wildcard
+ */
+export function selectProjects<T extends ReadinessProject>(projects: T[], filter: string[] | undefined = getProjectFilter()): T[] {
+  if (!filter) {
+    return projects;
+  }
+  const patterns = filter.map(name => new RegExp(`^${name.toLowerCase().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`));
+  return projects.filter(project => patterns.some(pattern => pattern.test((project.name || '').toLowerCase())));
+}
+
+/**
+ * Components the given projects depend on, from each project's `metadata.readiness`
+ * Projects without that list need all of them
+ */
+export function getRequiredComponents(projects: ReadinessProject[]): ReadinessComponent[] {
+  const required = new Set<ReadinessComponent>();
+  for (const project of projects) {
+    (project.metadata?.readiness || READINESS_COMPONENTS).forEach(component => required.add(component));
+  }
+  return READINESS_COMPONENTS.filter(component => required.has(component));
+}
+
+/**
+ * Probes the frontend, the backend health route and a canary query, in that order, limited to `components`
+ * Later probes are skipped once one fails, since they depend on it
+ */
+export async function runReadinessProbes(
+  options: Partial<ReadinessProbeOptions> & Pick<ReadinessProbeOptions, 'backendUrl'>
+): Promise<ReadinessReport> {
+  const config: ReadinessProbeOptions = { ...DEFAULT_READINESS_PROBE_OPTIONS, ...options };
+  if (config.components.includes('frontend') && !config.frontendUrl) {
+    throw new Error('A frontendUrl is required to probe the frontend');
+  }
+  const startTime = Date.now();
+  const api = await request.newContext();
+  const backend = config.backendUrl.replace(/\/$/, '');
+
+  const targets = ([
+    ['frontend', config.frontendUrl || ''],
+    ['backend', `${backend}${getHealthPath()}`],
+    ['canary', `${backend}${getQueryPath()}`]
+  ] as [ReadinessComponent, string][]).filter(([component]) => config.components.includes(component));
+
+  const components: ComponentProbeResult[] = [];
+  try {
+    for (const [component, url] of targets) {
+      const probe = await probeComponent(api, component, url, config);
+      components.push(probe);
+      if (!probe.isReady) {
+        break;
+      }
+    }
+  } finally {
+    await api.dispose();
+  }
+
+  const failed = components.find(component => !component.isReady);
+  return {
+    isReady: !failed,
+    checkedAt: new Date().toISOString(),
+    totalMs: Date.now() - startTime,
+    components,
+    reason: failed ? `${failed.component} (${failed.url}) not ready: ${failed.error}` : undefined
+  };
+}
+
+export function writeReadinessReport(report: ReadinessReport, reportPath: string = READINESS_REPORT_PATH): string {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n');
+  return reportPath;
+}
+
+export function formatReadinessReport(report: ReadinessReport): string {
+  const lines = [`Readiness: ${report.isReady ? 'READY' : 'NOT READY'} in ${report.totalMs}ms`];
+  for (const component of report.components) {
+    const detail = component.isReady ? `${component.latencyMs}ms` : component.error;
+    lines.push(`  ${component.isReady ? '✅' : '❌'} ${component.component.padEnd(8)} ${detail} (${component.attempts} attempt(s), ${component.url})`);
+  }
+  return lines.join('\n');
+}
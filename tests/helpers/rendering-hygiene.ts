@@ -0,0 +1,200 @@
+import { Page } from '@playwright/test';
+import { loadSectionSchema } from './section-schema';
+
+export type HygieneRuleId =
+  | 'markdown-heading'
+  | 'markdown-list-marker'
+  | 'markdown-emphasis'
+  | 'markdown-code'
+  | 'markdown-link'
+  | 'html-entity'
+  | 'value-leak'
+  | 'broken-unicode'
+  | 'empty-list-item';
+
+export interface HygieneRule {
+  description: string;
+  /** Searched in every rendered text node; rules without a pattern inspect elements instead */
+  pattern?: string;
+  flags?: string;
+  /** Text inside these elements is exempt, e.g. backticks inside a rendered <code> block */
+  ignoreInside?: string;
+}
+
+export interface HygieneIssue {
+  rule: HygieneRuleId;
+  description: string;
+  /** Short CSS path to the offending element */
+  target: string;
+  /** Opening tag and start of the element's outer HTML */
+  html: string;
+  /** Offending text with some surrounding context */
+  snippet: string;
+}
+
+export interface HygieneResult {
+  isValid: boolean;
+  scope: string;
+  rulesRun: HygieneRuleId[];
+  issues: HygieneIssue[];
+  /** Issues per rule, including those beyond maxIssuesPerRule */
+  counts: Partial<Record<HygieneRuleId, number>>;
+}
+
+export interface HygieneOptions {
+  /** CSS selector of the region to scan; defaults to the section schema's answerContainer */
+  include: string;
+  disableRules: HygieneRuleId[];
+  /** Issues reported per rule before the rest are dropped */
+  maxIssuesPerRule: number;
+}
+
+/**
+ * Rule ids and what they catch, in the order the scanner runs them
+ * Paired delimiters (**bold**, `code`) and code fences match as one issue; unpaired delimiters match alone
+ * undefined, NaN and null only count as leaks when they stand alone: a whole line, or a value after ":"
+ * at the end of a line. In running prose ("the outcome is undefined until tariffs settle") they are words
+ */
+export const HYGIENE_RULES: Record<HygieneRuleId, HygieneRule> = {
+  'markdown-heading': { description: 'Leftover markdown heading (#)', pattern: '^\\s*#{1,6}\\s+\\S', flags: 'gm' },
+  'markdown-list-marker': { description: 'Leftover markdown list marker (-, *, + or 1.)', pattern: '^\\s*(?:[-*+]|\\d+[.)])\\s+\\S', flags: 'gm' },
+  'markdown-emphasis': { description: 'Leftover markdown bold or italic syntax', pattern: '\\*\\*(?:[^*\\n]+\\*\\*)?|__(?:[^_\\n]+__)?|(?<![\\w*])\\*(?=\\S)[^*\\n]+(?<=\\S)\\*(?![\\w*])', flags: 'g' },
+  'markdown-code': { description: 'Leftover markdown backticks', pattern: '`{3,}|`[^`\\n]+`|`+', flags: 'g', ignoreInside: 'code, pre' },
+  'markdown-link': { description: 'Leftover markdown link syntax', pattern: '\\[[^\\]\\n]+\\]\\([^)\\s]*\\)?', flags: 'g' },
+  'html-entity': { description: 'Escaped HTML entity shown as text', pattern: '&(?:[a-z][a-z0-9]{1,31}|#\\d{1,7}|#x[0-9a-f]{1,6});', flags: 'gi' },
+  'value-leak': { description: 'Program value leaked into the text', pattern: '\\[object \\w+\\]|(?:^|:[ \\t]*)(?:undefined|NaN|null)[ \\t]*$', flags: 'gm' },
+  'broken-unicode': { description: 'Replacement character, mojibake or lone surrogate', pattern: '\\uFFFD|Ã[\\u0080-\\u00BF]|â€|[\\uD800-\\uDBFF](?![\\uDC00-\\uDFFF])|(?<![\\uD800-\\uDBFF])[\\uDC00-\\uDFFF]', flags: 'g' },
+  'empty-list-item': { description: 'List item without content' }
+};
+
+export const DEFAULT_HYGIENE_OPTIONS: Omit<HygieneOptions, 'include'> = {
+  disableRules: [],
+  maxIssuesPerRule: 20
+};
+
+/**
+ * Scanner executed inside the page; must stay self-contained because Playwright serializes it
+ */
+function scanInPage(args: {
+  include: string;
+  rules: { id: HygieneRuleId; description: string; pattern?: string; flags?: string; ignoreInside?: string }[];
+  maxIssuesPerRule: number;
+}): { issues: HygieneIssue[]; counts: Record<string, number> } {
+  const scope = document.querySelector(args.include);
+  if (!scope) {
+    throw new Error(`Rendering hygiene scan: nothing matches ${args.include}`);
+  }
+  const issues: HygieneIssue[] = [];
+  const counts: Record<string, number> = {};
+
+  const describe = (el: Element): string => {
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== document.documentElement && parts.length < 4) {
+      if (node.id) {
+        parts.unshift(`#${node.id}`);
+        break;
+      }
+      const classes = Array.from(node.classList).slice(0, 2).map(c => `.${c}`).join('');
+      parts.unshift(`${node.tagName.toLowerCase()}${classes}`);
+      node = node.parentElement;
+    }
+    return parts.join(' > ');
+  };
+  const report = (rule: { id: HygieneRuleId; description: string }, el: Element, snippet: string) => {
+    counts[rule.id] = (counts[rule.id] || 0) + 1;
+    if (counts[rule.id] > args.maxIssuesPerRule) return;
+    issues.push({
+      rule: rule.id,
+      description: rule.description,
+      target: describe(el),
+      html: el.outerHTML.replace(/\s+/g, ' ').slice(0, 120),
+      snippet
+    });
+  };
+  const isHidden = (el: Element) => {
+    const style = getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const walker = document.createTreeWalker(scope, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => {
+      const parent = node.parentElement;
+      if (!parent || parent.closest('script, style, noscript, template') || isHidden(parent)) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return node.textContent && node.textContent.trim() ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT;
+    }
+  });
+
+  const textRules = args.rules.filter(rule => rule.pattern);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parent = node.parentElement!;
+    const text = node.textContent || '';
+    for (const rule of textRules) {
+      if (rule.ignoreInside && parent.closest(rule.ignoreInside)) continue;
+      const regex = new RegExp(rule.pattern!, rule.flags || 'g');
+      for (const match of text.matchAll(regex)) {
+        const start = Math.max(0, match.index! - 30);
+        const end = Math.min(text.length, match.index! + match[0].length + 30);
+        report(rule, parent, `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`);
+      }
+    }
+  }
+
+  const emptyItems = args.rules.find(rule => rule.id === 'empty-list-item');
+  if (emptyItems) {
+    for (const item of Array.from(scope.querySelectorAll('li'))) {
+      const text = ((item as HTMLElement).innerText || item.textContent || '').trim();
+      if (!text && !item.querySelector('img, svg, input') && !isHidden(item)) {
+        report(emptyItems, item, '(empty)');
+      }
+    }
+  }
+
+  return { issues, counts };
+}
+
+/**
+ * Scans every rendered text node of the answer (or the `include` region) for markdown leftovers,
+ * escaped entities, leaked program values, broken unicode and empty list items
+ */
+export async function scanRenderingHygiene(page: Page, options: Partial<HygieneOptions> = {}): Promise<HygieneResult> {
+  const config: HygieneOptions = { include: loadSectionSchema().answerContainer, ...DEFAULT_HYGIENE_OPTIONS, ...options };
+  const rulesRun = (Object.keys(HYGIENE_RULES) as HygieneRuleId[]).filter(id => !config.disableRules.includes(id));
+
+  const { issues, counts } = await page.evaluate(scanInPage, {
+    include: config.include,
+    rules: rulesRun.map(id => ({ id, ...HYGIENE_RULES[id] })),
+    maxIssuesPerRule: config.maxIssuesPerRule
+  });
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  console.log(`🧼 Rendering hygiene scan of ${config.include}: ${total} issues across ${rulesRun.length} rules`);
+  return { isValid: total === 0, scope: config.include, rulesRun, issues, counts };
+}
+
+/**
+ * Human-readable issues report grouped by rule
+ */
+export function formatHygieneReport(result: HygieneResult): string {
+  const lines = [`Rendering hygiene: ${result.scope}`];
+  if (result.issues.length === 0) {
+    lines.push(`No issues across ${result.rulesRun.length} rules`);
+    return lines.join('\n');
+  }
+
+  for (const rule of result.rulesRun) {
+    const issues = result.issues.filter(issue => issue.rule === rule);
+    if (issues.length === 0) continue;
+    lines.push('', `${rule}: ${HYGIENE_RULES[rule].description} (${result.counts[rule]})`);
+    for (const issue of issues) {
+      lines.push(`  - ${issue.target}: "${issue.snippet}"`);
+      lines.push(`    ${issue.html}`);
+    }
+    if (result.counts[rule]! > issues.length) {
+      lines.push(`  ... ${result.counts[rule]! - issues.length} more`);
+    }
+  }
+  return lines.join('\n');
+}
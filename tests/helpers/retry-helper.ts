@@ -1,3 +1,5 @@
+import fs from 'fs';
+import path from 'path';
 import { Page } from '@playwright/test';
 
 export interface RetryOptions {
@@ -7,6 +9,53 @@ export interface RetryOptions {
   backoffMultiplier: number;
 }
 
+/** What to do with an error: retry it, fail immediately, or leave it to the next classifier */
+export type RetryDecision = 'retry' | 'fail' | undefined;
+
+export type ErrorClassifier = (error: unknown) => RetryDecision;
+
+export interface RetryPolicy extends RetryOptions {
+  /** Random spread applied to each delay, 0-1 (0.2 = ±20%) */
+  jitter: number;
+  /**
+   * Total time for all attempts and delays; no new attempt starts once it would be exceeded.
+   * Checked between attempts only: a running attempt is not interrupted, so a slow last attempt
+   * can overrun the budget by its own duration. Give the operation its own timeout to bound that
+   */
+  budgetMs?: number;
+  /** Consulted in order; the first decision wins */
+  classifiers: ErrorClassifier[];
+  /** Whether errors no classifier recognizes are retried */
+  retryUnclassified: boolean;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  durationMs: number;
+  outcome: 'success' | 'retry' | 'fail';
+  /** Wait before the next attempt */
+  delayMs?: number;
+  errorName?: string;
+  errorMessage?: string;
+}
+
+export type RetryStopReason = 'success' | 'non-retryable' | 'max-attempts' | 'budget';
+
+export interface RetryResult<T> {
+  succeeded: boolean;
+  value?: T;
+  error?: unknown;
+  stopReason: RetryStopReason;
+  attempts: RetryAttempt[];
+  totalMs: number;
+}
+
+export interface RetryHooks {
+  beforeAttempt?: (attempt: number) => Promise<void> | void;
+  /** Runs after every failed attempt, e.g. to capture a screenshot */
+  onAttemptFailed?: (attempt: RetryAttempt, error: unknown) => Promise<void> | void;
+}
+
 export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   maxRetries: 3,
   baseDelay: 500,
@@ -14,81 +63,212 @@ export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   backoffMultiplier: 2
 };
 
+const TRANSIENT_ERROR_PATTERN = /timeout|timed out|ECONNRESET|ECONNREFUSED|EPIPE|socket hang up|net::ERR_|NS_ERROR_|navigation (was )?interrupted|Target (page, context or browser )?(has been )?closed|Execution context was destroyed/i;
+
 /**
- * Retry function with exponential backoff
+ * Fails fast on expect() assertion errors; retrying cannot fix a wrong answer
  */
-export async function retry<T>(
-  operation: () => Promise<T>,
-  options: Partial<RetryOptions> = {}
-): Promise<T> {
-  const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
-  let lastError: Error | null = null;
-  
-  for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error as Error;
-      
-      if (attempt === config.maxRetries) {
-        console.log(`❌ Operation failed after ${config.maxRetries} attempts`);
-        throw lastError;
-      }
-      
-      const delay = Math.min(
-        config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1),
-        config.maxDelay
-      );
-      
-      console.log(`⚠️ Attempt ${attempt} failed, retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+export const assertionClassifier: ErrorClassifier = error => {
+  if (!(error instanceof Error)) {
+    return undefined;
+  }
+  const isAssertion = 'matcherResult' in error || /AssertionError/.test(error.name) || /^\s*(Error: )?expect\(/.test(error.message);
+  return isAssertion ? 'fail' : undefined;
+};
+
+/**
+ * Retries timeouts, connection resets and interrupted navigations
+ */
+export const transientErrorClassifier: ErrorClassifier = error => {
+  if (!(error instanceof Error)) {
+    return undefined;
+  }
+  return error.name === 'TimeoutError' || TRANSIENT_ERROR_PATTERN.test(error.message) ? 'retry' : undefined;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_OPTIONS,
+  jitter: 0.2,
+  classifiers: [assertionClassifier, transientErrorClassifier],
+  retryUnclassified: false
+};
+
+/**
+ * Decision of the first classifier with an opinion, falling back to retryUnclassified
+ */
+export function classifyError(error: unknown, policy: RetryPolicy = DEFAULT_RETRY_POLICY): 'retry' | 'fail' {
+  for (const classifier of policy.classifiers) {
+    const decision = classifier(error);
+    if (decision) {
+      return decision;
     }
   }
-  
-  throw lastError!;
+  return policy.retryUnclassified ? 'retry' : 'fail';
 }
 
 /**
- * Retry validation operations with detailed logging
+ * Exponential backoff delay before attempt + 1, spread by jitter; never exceeds maxDelay
  */
-export async function retryValidation<T>(
-  operation: () => Promise<T>,
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const base = Math.min(policy.baseDelay * Math.pow(policy.backoffMultiplier, attempt - 1), policy.maxDelay);
+  const spread = base * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.min(Math.round(base + spread), policy.maxDelay));
+}
+
+function describeError(error: unknown): { errorName: string; errorMessage: string } {
+  return error instanceof Error
+    ? { errorName: error.name, errorMessage: error.message.replace(/\u001b\[[0-9;]*m/g, '').split('\n')[0] }
+    : { errorName: typeof error, errorMessage: String(error) };
+}
+
+/**
+ * Single retry engine: runs the operation until it succeeds, hits a non-retryable error,
+ * runs out of attempts or the next delay would exceed the time budget (see budgetMs).
+ * Never throws; inspect the result instead
+ */
+export async function runWithRetry<T>(
+  operation: (attempt: number) => Promise<T>,
   operationName: string,
-  options: Partial<RetryOptions> = {}
-): Promise<T> {
-  const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
-  let lastError: Error | null = null;
-  
+  policy: Partial<RetryPolicy> = {},
+  hooks: RetryHooks = {}
+): Promise<RetryResult<T>> {
+  const config = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const attempts: RetryAttempt[] = [];
+  const startTime = Date.now();
+
+  if (config.maxRetries < 1) {
+    const error = new Error(`${operationName}: maxRetries must be at least 1, got ${config.maxRetries}`);
+    console.log(`💥 ${error.message}`);
+    return { succeeded: false, error, stopReason: 'max-attempts', attempts, totalMs: 0 };
+  }
+
   for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
+    const attemptStart = Date.now();
     try {
-      console.log(`🔍 ${operationName} (attempt ${attempt}/${config.maxRetries})`);
-      const result = await operation();
-      
+      await hooks.beforeAttempt?.(attempt);
+      const value = await operation(attempt);
+      attempts.push({ attempt, durationMs: Date.now() - attemptStart, outcome: 'success' });
       if (attempt > 1) {
         console.log(`✅ ${operationName} succeeded on attempt ${attempt}`);
       }
-      
-      return result;
+      return { succeeded: true, value, stopReason: 'success', attempts, totalMs: Date.now() - startTime };
     } catch (error) {
-      lastError = error as Error;
-      console.log(`❌ ${operationName} failed on attempt ${attempt}: ${error}`);
-      
-      if (attempt === config.maxRetries) {
-        console.log(`💥 ${operationName} failed after ${config.maxRetries} attempts`);
-        throw lastError;
+      const decision = classifyError(error, config);
+      const record: RetryAttempt = { attempt, durationMs: Date.now() - attemptStart, outcome: decision, ...describeError(error) };
+      attempts.push(record);
+      console.log(`❌ ${operationName} failed on attempt ${attempt}/${config.maxRetries}: ${record.errorMessage}`);
+
+      try {
+        await hooks.onAttemptFailed?.(record, error);
+      } catch (hookError) {
+        console.log(`⚠️ Retry hook failed: ${hookError}`);
       }
-      
-      const delay = Math.min(
-        config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1),
-        config.maxDelay
-      );
-      
-      console.log(`⏳ Retrying ${operationName} in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+
+      let stopReason: RetryStopReason | null = null;
+      if (decision === 'fail') {
+        stopReason = 'non-retryable';
+      } else if (attempt === config.maxRetries) {
+        stopReason = 'max-attempts';
+      } else {
+        record.delayMs = computeRetryDelay(attempt, config);
+        if (config.budgetMs !== undefined && Date.now() - startTime + record.delayMs > config.budgetMs) {
+          stopReason = 'budget';
+        }
+      }
+
+      if (stopReason) {
+        record.outcome = 'fail';
+        delete record.delayMs;
+        console.log(`💥 ${operationName} gave up after ${attempt} attempt(s) (${stopReason})`);
+        return { succeeded: false, error, stopReason, attempts, totalMs: Date.now() - startTime };
+      }
+
+      console.log(`⏳ Retrying ${operationName} in ${record.delayMs}ms...`);
+      await new Promise(resolve => setTimeout(resolve, record.delayMs));
     }
   }
-  
-  throw lastError!;
+
+  // Unreachable: the last attempt always returns
+  return { succeeded: false, stopReason: 'max-attempts', attempts, totalMs: Date.now() - startTime };
+}
+
+/**
+ * One line per attempt, for logs and test attachments
+ */
+export function formatRetryAttempts<T>(operationName: string, result: RetryResult<T>): string {
+  const lines = [`${operationName}: ${result.succeeded ? 'succeeded' : 'failed'} after ${result.attempts.length} attempt(s) in ${result.totalMs}ms (${result.stopReason})`];
+  for (const attempt of result.attempts) {
+    const delay = attempt.delayMs !== undefined ? `, next in ${attempt.delayMs}ms` : '';
+    const error = attempt.errorMessage ? ` - ${attempt.errorName}: ${attempt.errorMessage}` : '';
+    lines.push(`  #${attempt.attempt} ${attempt.outcome} (${attempt.durationMs}ms${delay})${error}`);
+  }
+  return lines.join('\n');
+}
+
+function artifactName(operationName: string, attempt: number, ext: string): string {
+  return path.join('test-results', `${operationName.toLowerCase().replace(/\s+/g, '-')}-attempt-${attempt}.${ext}`);
+}
+
+/**
+ * Hook saving a screenshot of each failed attempt to test-results/
+ */
+export function screenshotOnFailure(page: Page, operationName: string): RetryHooks['onAttemptFailed'] {
+  return async attempt => {
+    const screenshotPath = artifactName(operationName, attempt.attempt, 'png');
+    await page.screenshot({ path: screenshotPath });
+    console.log(`📸 Screenshot saved: ${screenshotPath}`);
+  };
+}
+
+/**
+ * Hook saving the page HTML of each failed attempt to test-results/, a lightweight trace snapshot
+ */
+export function domSnapshotOnFailure(page: Page, operationName: string): RetryHooks['onAttemptFailed'] {
+  return async attempt => {
+    const snapshotPath = artifactName(operationName, attempt.attempt, 'html');
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, await page.content());
+    console.log(`🧾 DOM snapshot saved: ${snapshotPath}`);
+  };
+}
+
+/**
+ * The throwing wrappers keep retrying errors no classifier recognizes, as they always have;
+ * only assertion failures fail fast. Pass `retryUnclassified: false` to opt out
+ */
+async function retryOrThrow<T>(
+  operation: () => Promise<T>,
+  operationName: string,
+  options: Partial<RetryPolicy>,
+  hooks: RetryHooks = {}
+): Promise<T> {
+  const result = await runWithRetry(operation, operationName, { retryUnclassified: true, ...options }, hooks);
+  if (!result.succeeded) {
+    throw result.error;
+  }
+  return result.value as T;
+}
+
+/**
+ * Retry function with exponential backoff
+ */
+export async function retry<T>(
+  operation: () => Promise<T>,
+  options: Partial<RetryPolicy> = {}
+): Promise<T> {
+  return retryOrThrow(operation, 'Operation', options);
+}
+
+/**
+ * Retry validation operations with detailed logging
+ */
+export async function retryValidation<T>(
+  operation: () => Promise<T>,
+  operationName: string,
+  options: Partial<RetryPolicy> = {}
+): Promise<T> {
+  console.log(`🔍 ${operationName}`);
+  return retryOrThrow(operation, operationName, options);
 }
 
 /**
@@ -98,48 +278,8 @@ export async function retryPageOperation<T>(
   page: Page,
   operation: () => Promise<T>,
   operationName: string,
-  options: Partial<RetryOptions> = {}
+  options: Partial<RetryPolicy> = {}
 ): Promise<T> {
-  const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
-  let lastError: Error | null = null;
-  
-  for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
-    try {
-      console.log(`🔍 ${operationName} (attempt ${attempt}/${config.maxRetries})`);
-      const result = await operation();
-      
-      if (attempt > 1) {
-        console.log(`✅ ${operationName} succeeded on attempt ${attempt}`);
-      }
-      
-      return result;
-    } catch (error) {
-      lastError = error as Error;
-      console.log(`❌ ${operationName} failed on attempt ${attempt}: ${error}`);
-      
-      // Capture screenshot on failure
-      try {
-        const screenshotPath = `test-results/${operationName.toLowerCase().replace(/\s+/g, '-')}-attempt-${attempt}.png`;
-        await page.screenshot({ path: screenshotPath });
-        console.log(`📸 Screenshot saved: ${screenshotPath}`);
-      } catch (screenshotError) {
-        console.log(`⚠️ Failed to capture screenshot: ${screenshotError}`);
-      }
-      
-      if (attempt === config.maxRetries) {
-        console.log(`💥 ${operationName} failed after ${config.maxRetries} attempts`);
-        throw lastError;
-      }
-      
-      const delay = Math.min(
-        config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1),
-        config.maxDelay
-      );
-      
-      console.log(`⏳ Retrying ${operationName} in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw lastError!;
-} 
\ No newline at end of file
+  console.log(`🔍 ${operationName}`);
+  return retryOrThrow(operation, operationName, options, { onAttemptFailed: screenshotOnFailure(page, operationName) });
+}
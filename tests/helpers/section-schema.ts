@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+
+export type SectionContentRule =
+  | { type: 'mustMatch'; pattern: string; flags?: string; message: string }
+  | { type: 'mustNotMatch'; pattern: string; flags?: string; message: string }
+  | { type: 'minLines'; value: number; message?: string };
+
+export interface SectionDefinition {
+  id: string;
+  name: string;
+  required: boolean;
+  testIds: string[];
+  /** Heading texts, most specific first */
+  headings: string[];
+  minLength?: number;
+  placeholderPatterns?: string[];
+  rules?: SectionContentRule[];
+}
+
+export interface SectionSchema {
+  version: string;
+  answerContainer: string;
+  defaults: {
+    minLength: number;
+    placeholderPatterns: string[];
+    rules: SectionContentRule[];
+  };
+  sections: SectionDefinition[];
+}
+
+export const DEFAULT_SECTION_SCHEMA_PATH = path.join(__dirname, '..', 'config', 'section-schema.json');
+
+const schemaCache = new Map<string, SectionSchema>();
+
+/**
+ * Loads the declarative section schema
+ * THINKPAL_SECTION_SCHEMA points at an alternative file, e.g. for a new ThinkPal release
+ */
+export function loadSectionSchema(schemaPath: string = process.env.THINKPAL_SECTION_SCHEMA || DEFAULT_SECTION_SCHEMA_PATH): SectionSchema {
+  const cached = schemaCache.get(schemaPath);
+  if (cached) {
+    return cached;
+  }
+
+  const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8')) as SectionSchema;
+
+  const ids = new Set<string>();
+  for (const section of schema.sections) {
+    if (!section.id || !section.name || !Array.isArray(section.testIds) || !Array.isArray(section.headings)) {
+      throw new Error(`Invalid section schema ${schemaPath}: every section needs id, name, testIds and headings`);
+    }
+    if (ids.has(section.id)) {
+      throw new Error(`Invalid section schema ${schemaPath}: duplicate section id "${section.id}"`);
+    }
+    ids.add(section.id);
+  }
+
+  schemaCache.set(schemaPath, schema);
+  return schema;
+}
+
+/**
+ * Looks up a section by id
+ */
+export function getSectionDefinition(id: string, schema: SectionSchema = loadSectionSchema()): SectionDefinition {
+  const section = schema.sections.find(s => s.id === id);
+  if (!section) {
+    throw new Error(`Unknown answer section: ${id}`);
+  }
+  return section;
+}
+
+/**
+ * Sections every answer must contain
+ */
+export function getRequiredSections(schema: SectionSchema = loadSectionSchema()): SectionDefinition[] {
+  return schema.sections.filter(s => s.required);
+}
+
+/**
+ * Selector for a heading element whose whole text is the heading, apart from icons and punctuation,
+ * so neither the concept "Scenario Analysis" nor the heading "Concepts/Tools/Practice Reference" counts as "Tools"
+ */
+export function getHeadingSelector(heading: string): string {
+  const pattern = `^[^A-Za-z0-9]*${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\\/g, '\\\\')}[^A-Za-z0-9]*$`;
+  return `:is(h1, h2, h3, h4, h5, h6, strong):text-matches("${pattern}", "i")`;
+}
+
+/**
+ * Candidate selectors for a section: data-testid containers first, then headings (see getHeadingSelector())
+ */
+export function getSectionSelectors(section: SectionDefinition): string[] {
+  return [
+    ...section.testIds.map(testId => `[data-testid="${testId}"]`),
+    ...section.headings.map(getHeadingSelector)
+  ];
+}
+
+/**
+ * Section placeholder patterns merged with the schema-wide ones
+ */
+export function getPlaceholderPatterns(section: SectionDefinition, schema: SectionSchema = loadSectionSchema()): string[] {
+  return [...(section.placeholderPatterns || []), ...schema.defaults.placeholderPatterns];
+}
+
+/**
+ * Checks section text against the schema-wide and per-section content rules
+ * Returns one message per broken rule
+ */
+export function checkContentRules(section: SectionDefinition, content: string, schema: SectionSchema = loadSectionSchema()): string[] {
+  const errors: string[] = [];
+  const rules = [...schema.defaults.rules, ...(section.rules || [])];
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'mustMatch':
+        if (!new RegExp(rule.pattern, rule.flags).test(content)) {
+          errors.push(rule.message);
+        }
+        break;
+      case 'mustNotMatch':
+        if (new RegExp(rule.pattern, rule.flags).test(content)) {
+          errors.push(rule.message);
+        }
+        break;
+      case 'minLines': {
+        const lines = content
+          .split('\n')
+          .map(line => line.trim())
+          .filter(line => line && !section.headings.includes(line));
+        if (lines.length < rule.value) {
+          errors.push(rule.message || `has ${lines.length} lines, expected ${rule.value}+`);
+        }
+        break;
+      }
+    }
+  }
+
+  return errors;
+}
@@ -1,4 +1,11 @@
 import { Page, expect } from '@playwright/test';
+import {
+  SectionSchema,
+  loadSectionSchema,
+  getSectionSelectors,
+  getPlaceholderPatterns,
+  checkContentRules
+} from './section-schema';
 
 export interface TooltipValidationResult {
   isValid: boolean;
@@ -16,6 +23,7 @@ export interface TooltipValidationResult {
 export interface SectionValidationResult {
   isValid: boolean;
   sectionName: string;
+  required?: boolean;
   content?: string;
   error?: string;
   characterCount: number;
@@ -145,7 +153,8 @@ export async function validateSection(
   page: Page, 
   sectionName: string, 
   selectors: string[], 
-  minLength: number = 50
+  minLength: number = 50,
+  placeholderPatterns: string[] = loadSectionSchema().sections.flatMap(s => getPlaceholderPatterns(s))
 ): Promise<SectionValidationResult> {
   const result: SectionValidationResult = {
     isValid: false,
@@ -168,8 +177,10 @@ export async function validateSection(
       return result;
     }
 
-    // Get section content
-    const content = await section.locator('..').textContent();
+    // A matched heading sits inside its section; any other match is the section container itself,
+    // whose parent would also hold the sibling sections
+    const isHeading = await section.evaluate(el => /^(H[1-6]|STRONG)$/.test(el.tagName));
+    const content = await (isHeading ? section.locator('..') : section).textContent();
     result.content = content || '';
     result.characterCount = result.content.length;
 
@@ -180,20 +191,6 @@ export async function validateSection(
       result.error = `Section too short (${result.characterCount} chars, expected ${minLength}+)`;
     } else {
       // Check for placeholder text
-      const placeholderPatterns = [
-        'No answer available',
-        'No content available',
-        'No strategy available',
-        'No story available',
-        'No tools available',
-        'No prompts available',
-        'No concepts available',
-        'Loading...',
-        'Please wait...',
-        'Coming soon...',
-        'Under construction'
-      ];
-
       const hasPlaceholder = placeholderPatterns.some(pattern => 
         result.content!.toLowerCase().includes(pattern.toLowerCase())
       );
@@ -219,78 +216,46 @@ export async function validateSection(
 }
 
 /**
- * Validates all required sections in the ThinkPal response
+ * Validates every section in the section schema
+ * Optional sections are only checked when they are rendered
  */
-export async function validateAllSections(page: Page): Promise<{
+export async function validateAllSections(page: Page, schema: SectionSchema = loadSectionSchema()): Promise<{
   isValid: boolean;
   results: SectionValidationResult[];
   errors: string[];
 }> {
-  const sections = [
-    {
-      name: 'How to Strategize Your Decision',
-      selectors: [
-        '[data-testid="strategy-section"]',
-        '[data-testid="strategic-section"]',
-        'text=How to Strategize Your Decision',
-        'text=Strategic Thinking',
-        'text=Strategy'
-      ]
-    },
-    {
-      name: 'Story in Action',
-      selectors: [
-        '[data-testid="story-section"]',
-        'text=Story in Action',
-        'text=Example',
-        'text=Case Study'
-      ]
-    },
-    {
-      name: 'Analytical Tools',
-      selectors: [
-        '[data-testid="tools-section"]',
-        '[data-testid="analytical-section"]',
-        'text=Analytical Tools',
-        'text=Tools',
-        'text=Analysis'
-      ]
-    },
-    {
-      name: 'Reflection Prompts',
-      selectors: [
-        '[data-testid="prompts-section"]',
-        '[data-testid="reflection-section"]',
-        'text=Reflection Prompts',
-        'text=Prompts',
-        'text=Questions'
-      ]
-    },
-    {
-      name: 'Concepts/Tools/Practice Reference',
-      selectors: [
-        '[data-testid="concepts-section"]',
-        '[data-testid="reference-section"]',
-        'text=Concepts/Tools/Practice Reference',
-        'text=Key Concepts',
-        'text=Concepts'
-      ]
-    }
-  ];
-
   const results: SectionValidationResult[] = [];
   const errors: string[] = [];
 
-  for (const section of sections) {
-    const result = await validateSection(page, section.name, section.selectors);
-    results.push(result);
-    
-    if (!result.isValid) {
+  for (const section of schema.sections) {
+    const result = await validateSection(
+      page,
+      section.name,
+      getSectionSelectors(section),
+      section.minLength ?? schema.defaults.minLength,
+      getPlaceholderPatterns(section, schema)
+    );
+    result.required = section.required;
+
+    if (result.isValid && result.content) {
+      const ruleErrors = checkContentRules(section, result.content, schema);
+      if (ruleErrors.length > 0) {
+        result.isValid = false;
+        result.error = `Section ${ruleErrors.join('; ')}`;
+        console.log(`❌ ${section.name}: ${result.error}`);
+      }
+    }
+
+    if (!section.required && result.characterCount === 0) {
+      console.log(`ℹ️ ${section.name}: optional section not rendered, skipping`);
+    } else if (!result.isValid) {
       errors.push(`${section.name}: ${result.error}`);
     }
+
+    results.push(result);
   }
 
-  const isValid = results.every(r => r.isValid);
+  const isValid = errors.length === 0;
 
   if (isValid) {
     console.log('✅ All sections validated successfully');
@@ -299,4 +264,4 @@ export async function validateAllSections(page: Page): Promise<{
   }
 
   return { isValid, results, errors };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, Route, PageAssertionsToHaveScreenshotOptions } from '@playwright/test';
+import { DEFAULT_ANSWER_WAIT_OPTIONS } from './answer-waiter';
+import { loadAnswerFixtures } from '../mock-backend/server';
+import { MockAnswerFixture } from '../mock-backend/types';
+
+export type VisualState = 'empty' | 'loading' | 'answer';
+
+export interface VisualTolerance {
+  /** Share of pixels allowed to differ, 0-1 */
+  maxDiffPixelRatio?: number;
+  /** Absolute number of pixels allowed to differ */
+  maxDiffPixels?: number;
+  /** Per-pixel color distance treated as equal, 0-1 */
+  threshold?: number;
+}
+
+export interface VisualRegressionConfig {
+  /** Mock backend fixture rendered for the loading and answer states */
+  fixtureId: string;
+  /** Selectors for dynamic regions painted over before comparing */
+  masks: string[];
+  tolerances: {
+    default: VisualTolerance;
+    states?: Partial<Record<VisualState, VisualTolerance>>;
+    projects?: Record<string, VisualTolerance>;
+  };
+}
+
+export interface HeldAnswer {
+  fixture: MockAnswerFixture;
+  /** Resolves once the frontend's query request has been intercepted */
+  requested: Promise<void>;
+  /** Sends the held mock answer to the frontend */
+  release: () => void;
+}
+
+export const VISUAL_CONFIG_PATH = path.join(__dirname, '..', 'config', 'visual-regression.json');
+
+export const VISUAL_STATES: VisualState[] = ['empty', 'loading', 'answer'];
+
+/**
+ * Loads mask selectors and screenshot tolerances from tests/config/visual-regression.json
+ */
+export function loadVisualConfig(configPath: string = VISUAL_CONFIG_PATH): VisualRegressionConfig {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as VisualRegressionConfig;
+  if (!config.fixtureId || !Array.isArray(config.masks) || !config.tolerances || !config.tolerances.default) {
+    throw new Error(`Invalid visual regression config ${configPath}: fixtureId, masks and tolerances.default are required`);
+  }
+  return config;
+}
+
+/**
+ * Tolerance for a state on a project: defaults, then state overrides, then project overrides
+ */
+export function resolveTolerance(
+  state: VisualState,
+  projectName: string,
+  config: VisualRegressionConfig = loadVisualConfig()
+): VisualTolerance {
+  return {
+    ...config.tolerances.default,
+    ...(config.tolerances.states?.[state] || {}),
+    ...(config.tolerances.projects?.[projectName] || {})
+  };
+}
+
+/**
+ * toHaveScreenshot() options for a state: tolerances, masks and animations frozen
+ */
+export function getScreenshotOptions(
+  page: Page,
+  state: VisualState,
+  projectName: string,
+  config: VisualRegressionConfig = loadVisualConfig()
+): PageAssertionsToHaveScreenshotOptions {
+  return {
+    ...resolveTolerance(state, projectName, config),
+    mask: config.masks.map(selector => page.locator(selector)),
+    animations: 'disabled',
+    caret: 'hide',
+    fullPage: state === 'answer'
+  };
+}
+
+/**
+ * Answers the next query with a mock fixture, but only once release() is called
+ * Keeps the UI in its loading state for as long as needed, independent of any backend
+ */
+export async function holdMockAnswer(
+  page: Page,
+  fixtureId: string = loadVisualConfig().fixtureId
+): Promise<HeldAnswer> {
+  const fixture = loadAnswerFixtures().find(f => f.id === fixtureId);
+  if (!fixture) {
+    throw new Error(`Mock fixture "${fixtureId}" not found`);
+  }
+
+  let markRequested: () => void = () => {};
+  let release: () => void = () => {};
+  const requested = new Promise<void>(resolve => { markRequested = resolve; });
+  const released = new Promise<void>(resolve => { release = resolve; });
+
+  await page.route(DEFAULT_ANSWER_WAIT_OPTIONS.responseUrl, async (route: Route) => {
+    if (route.request().method() !== 'POST') {
+      await route.fallback();
+      return;
+    }
+    markRequested();
+    await released;
+    await route.fulfill({
+      status: fixture.status || 200,
+      headers: { 'Access-Control-Allow-Origin': '*' },
+      contentType: 'application/json',
+      body: JSON.stringify(fixture.response)
+    });
+  });
+
+  return { fixture, requested, release };
+}
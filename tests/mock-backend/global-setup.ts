@@ -0,0 +1,26 @@
+import { FullConfig } from '@playwright/test';
+import { DEFAULT_MOCK_BACKEND_PORT, startMockBackend } from './server';
+
+/**
+ * Port the mock backend listens on; THINKPAL_MOCK_BACKEND_PORT overrides it
+ */
+export function getMockBackendPort(): number {
+  return Number(process.env.THINKPAL_MOCK_BACKEND_PORT) || DEFAULT_MOCK_BACKEND_PORT;
+}
+
+/**
+ * Starts the mock backend for the whole run when THINKPAL_MOCK_BACKEND=1
+ * Returns the teardown Playwright calls once every test has finished
+ */
+export default async function globalSetup(_config: FullConfig): Promise<(() => Promise<void>) | undefined> {
+  if (process.env.THINKPAL_MOCK_BACKEND !== '1') {
+    return undefined;
+  }
+
+  const backend = await startMockBackend({ port: getMockBackendPort() });
+
+  return async () => {
+    console.log(`🧪 Mock backend served ${backend.requests.length} queries`);
+    await backend.stop();
+  };
+}
@@ -0,0 +1,188 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { MockAnswerFixture } from './types';
+
+export const DEFAULT_MOCK_BACKEND_PORT = 5000;
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+export const MAX_QUERY_LENGTH = 2000;
+
+/**
+ * Routes the frontend may post queries to
+ */
+export const MOCK_QUERY_PATHS = ['/query', '/api/query', '/ask'];
+
+export interface MockBackendOptions {
+  port: number;
+  host: string;
+  fixturesDir: string;
+}
+
+export interface MockBackend {
+  url: string;
+  port: number;
+  fixtures: MockAnswerFixture[];
+  /** Queries received so far, in order */
+  requests: string[];
+  stop: () => Promise<void>;
+}
+
+/**
+ * Lower-cases and collapses whitespace so fixtures match regardless of formatting
+ */
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Loads every *.json fixture in the directory, sorted by file name
+ */
+export function loadAnswerFixtures(fixturesDir: string = DEFAULT_FIXTURES_DIR): MockAnswerFixture[] {
+  const files = fs.readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.json'))
+    .sort();
+
+  return files.map(file => {
+    const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf-8')) as MockAnswerFixture;
+    if (!fixture.id || !fixture.match || !fixture.response) {
+      throw new Error(`Invalid mock fixture ${file}: id, match and response are required`);
+    }
+    return fixture;
+  });
+}
+
+/**
+ * Picks the fixture for a query: exact matches first, then patterns, then keywords, then the default
+ */
+export function matchAnswerFixture(query: string, fixtures: MockAnswerFixture[]): MockAnswerFixture | undefined {
+  const normalized = normalizeQuery(query);
+
+  const exact = fixtures.find(f => f.match.exact !== undefined && normalizeQuery(f.match.exact) === normalized);
+  if (exact) {
+    return exact;
+  }
+
+  const pattern = fixtures.find(f => f.match.pattern !== undefined && new RegExp(f.match.pattern, 'i').test(query));
+  if (pattern) {
+    return pattern;
+  }
+
+  const keywords = fixtures.find(f =>
+    f.match.contains !== undefined &&
+    f.match.contains.length > 0 &&
+    f.match.contains.every(keyword => normalized.includes(normalizeQuery(keyword)))
+  );
+  if (keywords) {
+    return keywords;
+  }
+
+  return fixtures.find(f => f.match.default);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Starts a local stand-in for the Python decision-coach backend
+ * Serves canned answers from JSON fixtures so UI tests are reproducible without OpenAI
+ */
+export async function startMockBackend(options: Partial<MockBackendOptions> = {}): Promise<MockBackend> {
+  const config: MockBackendOptions = {
+    port: DEFAULT_MOCK_BACKEND_PORT,
+    host: '127.0.0.1',
+    fixturesDir: DEFAULT_FIXTURES_DIR,
+    ...options
+  };
+
+  const fixtures = loadAnswerFixtures(config.fixturesDir);
+  const requests: string[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && (pathname === '/' || pathname === '/health')) {
+      sendJson(res, 200, { status: 'ok', mock: true, fixtures: fixtures.length });
+      return;
+    }
+
+    if (req.method !== 'POST' || !MOCK_QUERY_PATHS.includes(pathname)) {
+      sendJson(res, 404, { error: `No route for ${req.method} ${pathname}` });
+      return;
+    }
+
+    let query: unknown;
+    try {
+      query = JSON.parse(await readBody(req)).query;
+    } catch {
+      sendJson(res, 400, { error: 'Request body must be valid JSON' });
+      return;
+    }
+
+    if (typeof query !== 'string' || !query.trim()) {
+      sendJson(res, 400, { error: 'Missing required field: query' });
+      return;
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      sendJson(res, 413, { error: `Query too long (${query.length} chars, maximum ${MAX_QUERY_LENGTH})` });
+      return;
+    }
+
+    requests.push(query);
+
+    const fixture = matchAnswerFixture(query, fixtures);
+    if (!fixture) {
+      sendJson(res, 404, { error: `No mock answer for query: "${query}"` });
+      return;
+    }
+
+    if (fixture.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, fixture.delayMs));
+    }
+
+    const body = 'answer' in fixture.response
+      ? { ...fixture.response, query }
+      : fixture.response;
+    sendJson(res, fixture.status ?? 200, body);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', error => reject(new Error(`Mock backend failed to start on port ${config.port}: ${error.message}`)));
+    server.listen(config.port, config.host, () => resolve());
+  });
+
+  const port = (server.address() as AddressInfo).port;
+  console.log(`🧪 Mock backend listening on http://${config.host}:${port} (${fixtures.length} fixtures)`);
+
+  return {
+    url: `http://${config.host}:${port}`,
+    port,
+    fixtures,
+    requests,
+    stop: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * JSON shapes shared by the mock backend and anything that talks to the decision-coach API
+ */
+
+export interface ConceptPayload {
+  term: string;
+  definition: string;
+}
+
+export interface AnswerSectionsPayload {
+  strategy: string;
+  story: string;
+  reflection_prompts: string[];
+  concepts: ConceptPayload[];
+}
+
+export interface AnswerPayload {
+  query: string;
+  answer: AnswerSectionsPayload;
+}
+
+export interface ErrorPayload {
+  error: string;
+}
+
+export interface MockAnswerMatch {
+  /** Matches when the normalized query equals this string */
+  exact?: string;
+  /** Matches when the normalized query contains every keyword */
+  contains?: string[];
+  /** Matches when this case-insensitive regular expression finds the query */
+  pattern?: string;
+  /** Used when no other fixture matches */
+  default?: boolean;
+}
+
+export interface MockAnswerFixture {
+  id: string;
+  description?: string;
+  match: MockAnswerMatch;
+  status?: number;
+  delayMs?: number;
+  response: AnswerPayload | ErrorPayload;
+}
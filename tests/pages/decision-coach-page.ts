@@ -0,0 +1,133 @@
+import { Page, Locator } from '@playwright/test';
+import { getSectionDefinition, getHeadingSelector } from '../helpers/section-schema';
+import { waitForAnswerComplete, AnswerWaitOptions, AnswerWaitResult } from '../helpers/answer-waiter';
+
+export type AnswerSectionName = 'strategy' | 'story' | 'reflection' | 'concepts';
+
+export const QUERY_INPUT_SELECTOR = 'textarea[placeholder*="Ask me anything"]';
+export const ASK_BUTTON_SELECTOR = 'button:has-text("Ask")';
+// Only dedicated error elements: answer text may well mention "error" or "try again"
+export const ERROR_MESSAGE_SELECTOR = '[role="alert"], [data-testid="error-message"]';
+
+export const MAIN_WRAPPER_SELECTORS = [
+  '.main-wrapper',
+  '.main-container',
+  '.app-wrapper',
+  '.container',
+  'main',
+  '#root > div'
+];
+
+export interface MainWrapper {
+  locator: Locator;
+  selector: string;
+}
+
+/**
+ * Page object for the ThinkPal Decision Coach UI
+ * Keeps every frontend selector in one place so markup changes only touch this file
+ */
+export class DecisionCoachPage {
+  readonly page: Page;
+  readonly queryInput: Locator;
+  readonly askButton: Locator;
+  readonly errorMessage: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.queryInput = page.locator(QUERY_INPUT_SELECTOR).first();
+    this.askButton = page.locator(ASK_BUTTON_SELECTOR).first();
+    this.errorMessage = page.locator(ERROR_MESSAGE_SELECTOR).first();
+  }
+
+  /**
+   * Opens the app and waits for the network to settle
+   */
+  async goto(): Promise<void> {
+    await this.page.goto('/');
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  /**
+   * Fills the query textarea (replacing any previous input)
+   */
+  async fillQuery(query: string): Promise<void> {
+    await this.queryInput.clear();
+    await this.queryInput.fill(query);
+  }
+
+  /**
+   * Clicks the Ask button
+   */
+  async submit(): Promise<void> {
+    await this.askButton.click();
+  }
+
+  /**
+   * Fills in the query and submits it
+   */
+  async askQuery(query: string): Promise<void> {
+    await this.fillQuery(query);
+    await this.submit();
+  }
+
+  /**
+   * Waits for an already requested answer to finish rendering
+   * Prefer submitAndWait()/askAndWait(), which can also observe the backend response
+   */
+  async waitForAnswer(options: Partial<AnswerWaitOptions> = {}): Promise<AnswerWaitResult> {
+    return waitForAnswerComplete(this.page, options);
+  }
+
+  /**
+   * Clicks Ask and waits for the answer to complete
+   */
+  async submitAndWait(options: Partial<AnswerWaitOptions> = {}): Promise<AnswerWaitResult> {
+    return waitForAnswerComplete(this.page, options, () => this.submit());
+  }
+
+  /**
+   * Fills in the query, submits it and waits for the answer to complete
+   */
+  async askAndWait(query: string, options: Partial<AnswerWaitOptions> = {}): Promise<AnswerWaitResult> {
+    await this.fillQuery(query);
+    return this.submitAndWait(options);
+  }
+
+  /**
+   * Returns the locator for an answer section by its section schema id:
+   * its data-testid container, or the parent of its heading (see getHeadingSelector())
+   */
+  getSection(id: string): Locator {
+    const section = getSectionDefinition(id);
+    const candidates = [
+      ...section.testIds.map(testId => this.page.locator(`[data-testid="${testId}"]`)),
+      ...section.headings.map(heading => this.page.locator(getHeadingSelector(heading)).locator('..'))
+    ];
+    if (candidates.length === 0) {
+      throw new Error(`Section "${id}" declares neither testIds nor headings`);
+    }
+    return candidates.reduce((combined, candidate) => combined.or(candidate)).first();
+  }
+
+  /**
+   * Finds the first visible main layout wrapper, falling back to body
+   */
+  async getMainWrapper(): Promise<MainWrapper> {
+    for (const selector of MAIN_WRAPPER_SELECTORS) {
+      const element = this.page.locator(selector).first();
+      if (await element.isVisible()) {
+        return { locator: element, selector };
+      }
+    }
+
+    return { locator: this.page.locator('body'), selector: 'body' };
+  }
+
+  /**
+   * Saves a screenshot under tests/artifacts/
+   */
+  async saveArtifact(name: string, fullPage: boolean = false): Promise<void> {
+    await this.page.screenshot({ path: `tests/artifacts/${name}.png`, fullPage });
+  }
+}
@@ -0,0 +1,65 @@
+import { TestInfo } from '@playwright/test';
+import { test, expect } from './fixtures';
+import { holdMockAnswer } from './helpers/visual-regression';
+import {
+  BudgetCheckResult,
+  checkPerformanceBudgets,
+  collectLandingPerformance,
+  formatBudgetReport,
+  installPerformanceObservers,
+  loadPerformanceBudgets,
+  measureAnswerPerformance,
+  resolveBudgets,
+  trackScriptSizes
+} from './helpers/performance-budget';
+
+const config = loadPerformanceBudgets();
+
+async function attachBudgetReport(testInfo: TestInfo, result: BudgetCheckResult, details: Record<string, unknown>): Promise<string> {
+  const report = formatBudgetReport(result, testInfo.project.name);
+  await testInfo.attach(`performance-${result.phase}.txt`, { body: report, contentType: 'text/plain' });
+  await testInfo.attach(`performance-${result.phase}.json`, {
+    body: JSON.stringify({ ...result, ...details }, null, 2),
+    contentType: 'application/json'
+  });
+  console.log(report);
+  return report;
+}
+
+// Budgets live in tests/config/performance-budgets.json; the answer comes from a mock fixture,
+// so timings only depend on the frontend. LCP, CLS and long tasks are Chromium-only and
+// reported as unsupported elsewhere
+test.describe('ThinkPal Performance Budgets', () => {
+  test('landing page should stay within budget', async ({ page, decisionCoach, browserName }, testInfo) => {
+    const scriptSizes = trackScriptSizes(page);
+    await installPerformanceObservers(page);
+    await decisionCoach.goto();
+
+    const { sample, scripts } = await collectLandingPerformance(page, scriptSizes);
+    const result = checkPerformanceBudgets('landing', sample, resolveBudgets('landing', testInfo.project.name, config));
+    const report = await attachBudgetReport(testInfo, result, { sample, scripts });
+
+    expect(result.errors, report).toEqual([]);
+    if (browserName === 'chromium') {
+      // Chromium reports every entry type, so a missing metric means the measurement broke
+      expect(result.checks.filter(check => check.status === 'unsupported').map(check => check.metric), report).toEqual([]);
+    }
+  });
+
+  test('rendering an answer should stay within budget', async ({ page, decisionCoach }, testInfo) => {
+    await installPerformanceObservers(page);
+    await decisionCoach.goto();
+    await decisionCoach.fillQuery(config.query);
+
+    const held = await holdMockAnswer(page);
+    held.release();
+
+    const { sample, wait } = await measureAnswerPerformance(page, () => decisionCoach.submitAndWait());
+    await expect(decisionCoach.getSection('strategy')).toBeVisible();
+
+    const result = checkPerformanceBudgets('answer', sample, resolveBudgets('answer', testInfo.project.name, config));
+    const report = await attachBudgetReport(testInfo, result, { sample, wait });
+
+    expect(result.errors, report).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { test, expect } from './fixtures';
+import { parseAnswerCard } from './helpers/answer-parser';
+import { getRequiredSections, checkContentRules } from './helpers/section-schema';
+import { loadQueryCorpus, findExpectedConcepts, CORPUS_TAGS_ANNOTATION } from './helpers/query-corpus';
+import { validateAllSections } from './helpers/tooltip-checker';
+import { annotateQuality } from './helpers/quality-annotations';
+import { recordAnswerMetrics } from './helpers/metrics-history';
+
+// One test per entry in tests/config/query-corpus.json
+// The query-corpus reporter turns the results into a pass-rate table per tag
+test.describe('ThinkPal Query Corpus', () => {
+  for (const entry of loadQueryCorpus()) {
+    test(`corpus: ${entry.id} [${entry.tags.join(', ')}]`, async ({ page, decisionCoach }, testInfo) => {
+      testInfo.annotations.push({ type: CORPUS_TAGS_ANNOTATION, description: entry.tags.join(',') });
+      console.log(`🧪 Testing query: "${entry.query}"`);
+
+      await decisionCoach.goto();
+      const answerWait = await decisionCoach.askAndWait(entry.query);
+      const sections = (await validateAllSections(page)).results;
+      annotateQuality(testInfo, entry.query, { sections });
+      recordAnswerMetrics(testInfo, entry.query, { wait: answerWait, sections });
+
+      // Required sections are rendered and follow the schema's content rules
+      for (const section of getRequiredSections()) {
+        const sectionElement = decisionCoach.getSection(section.id);
+        if (!(await sectionElement.isVisible())) {
+          await page.screenshot({ path: `tests/artifacts/corpus-${entry.id}-${section.id}-missing.png` });
+          throw new Error(`${section.name} section not found for query: "${entry.query}"`);
+        }
+
+        const ruleErrors = checkContentRules(section, await sectionElement.innerText());
+        expect(ruleErrors, `${section.name} content rules for "${entry.query}"`).toEqual([]);
+      }
+
+      const answer = await parseAnswerCard(page);
+      expect(answer.missingSections, 'sections missing from the parsed answer').toEqual([]);
+
+      if (entry.expectedConcepts && entry.expectedConcepts.length > 0) {
+        const found = findExpectedConcepts(entry, answer);
+        const actual = answer.concepts.map(concept => concept.term).join(', ');
+        expect(found.length, `expected one of [${entry.expectedConcepts.join(', ')}], got [${actual}]`).toBeGreaterThan(0);
+      }
+
+      console.log(`✅ Query "${entry.id}" processed successfully`);
+    });
+  }
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase, TestResult, FullConfig } from '@playwright/test/reporter';
+import {
+  BrowserSnapshot,
+  CROSS_BROWSER_SNAPSHOT_ATTACHMENT,
+  diffBrowserSnapshots,
+  formatCrossBrowserReport,
+  loadCrossBrowserConfig
+} from '../helpers/cross-browser-diff';
+
+interface CrossBrowserDiffReporterOptions {
+  outputFile?: string;
+}
+
+/**
+ * Collects the snapshots attached by cross-browser-diff.spec.ts in every project and
+ * reports where the browsers disagree; runs without such tests produce no output
+ */
+class CrossBrowserDiffReporter implements Reporter {
+  private readonly outputFile: string;
+  private readonly snapshots = new Map<string, BrowserSnapshot[]>();
+
+  constructor(options: CrossBrowserDiffReporterOptions = {}) {
+    this.outputFile = options.outputFile || 'test-results/cross-browser-diff.json';
+  }
+
+  onBegin(_config: FullConfig): void {
+    this.snapshots.clear();
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const snapshots = result.attachments
+      .filter(attachment => attachment.name === CROSS_BROWSER_SNAPSHOT_ATTACHMENT && attachment.body)
+      .map(attachment => JSON.parse(attachment.body!.toString('utf-8')) as BrowserSnapshot);
+    // A retry replaces the snapshots of the earlier attempt
+    if (snapshots.length > 0) {
+      this.snapshots.set(test.id, snapshots);
+    }
+  }
+
+  onEnd(): void {
+    const snapshots = Array.from(this.snapshots.values()).flat();
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    const report = diffBrowserSnapshots(snapshots, loadCrossBrowserConfig());
+    const text = formatCrossBrowserReport(report);
+    console.log(`\n${report.isConsistent ? '✅' : '⚠️'} ${text}`);
+
+    const textFile = this.outputFile.replace(/\.json$/, '') + '.txt';
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify({ ...report, snapshots }, null, 2) + '\n');
+    fs.writeFileSync(textFile, text + '\n');
+    console.log(`💾 Cross-browser diff saved to ${this.outputFile} and ${textFile}`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default CrossBrowserDiffReporter;
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase, TestResult, FullConfig, FullResult } from '@playwright/test/reporter';
+import { QualityAnnotationData, readQualityAnnotations } from '../helpers/quality-annotations';
+
+export interface QualityRecord extends QualityAnnotationData {
+  title: string;
+  project: string;
+  status: string;
+  /** Validations that failed, plus the test error when there is one */
+  failures: string[];
+}
+
+export interface QualityRunSummary {
+  label: string;
+  records: QualityRecord[];
+}
+
+export interface QualityTrendPoint {
+  label: string;
+  testPassRate: number;
+  sectionPassRate: number;
+  avgTooltips: number;
+  avgScore: number;
+  avgSectionChars: Record<string, number>;
+}
+
+interface QualityDashboardReporterOptions {
+  outputFile?: string;
+  /** JSON reporter output, archived into historyDir after every run */
+  resultsFile?: string;
+  historyDir?: string;
+  maxHistory?: number;
+}
+
+interface JsonReportTest {
+  projectName: string;
+  status: string;
+  annotations?: { type: string; description?: string }[];
+  results: { status: string; error?: { message?: string }; annotations?: { type: string; description?: string }[] }[];
+}
+
+interface JsonReportSuite {
+  title: string;
+  suites?: JsonReportSuite[];
+  specs?: { title: string; tests: JsonReportTest[] }[];
+}
+
+function failuresOf(data: QualityAnnotationData, error?: string): string[] {
+  const failures = (data.sections || [])
+    .filter(section => !section.isValid && (section.required !== false || section.characterCount > 0))
+    .map(section => `${section.sectionName}: ${section.error || 'invalid'}`);
+  if (data.tooltips && !data.tooltips.isValid) {
+    failures.push(`Tooltips: ${data.tooltips.errors.join('; ') || 'invalid'}`);
+  }
+  if (error) {
+    failures.push(error.replace(/\u001b\[[0-9;]*m/g, '').split('\n')[0]);
+  }
+  return failures;
+}
+
+/**
+ * Quality records from a results.json file written by Playwright's JSON reporter
+ */
+export function readResultsFile(file: string): QualityRecord[] {
+  const report = JSON.parse(fs.readFileSync(file, 'utf-8')) as { suites?: JsonReportSuite[] };
+  const records: QualityRecord[] = [];
+
+  const walk = (suite: JsonReportSuite) => {
+    for (const spec of suite.specs || []) {
+      for (const test of spec.tests) {
+        const last = test.results[test.results.length - 1];
+        const data = readQualityAnnotations([...(test.annotations || []), ...(last?.annotations || [])]);
+        if (!data) {
+          continue;
+        }
+        records.push({
+          ...data,
+          title: spec.title,
+          project: test.projectName,
+          status: test.status,
+          failures: failuresOf(data, last?.error?.message)
+        });
+      }
+    }
+    (suite.suites || []).forEach(walk);
+  };
+  (report.suites || []).forEach(walk);
+  return records;
+}
+
+export function summarizeRun(run: QualityRunSummary): QualityTrendPoint {
+  const { records } = run;
+  const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  const sections = records.flatMap(record => record.sections || []).filter(section => section.characterCount > 0 || section.required !== false);
+  const avgSectionChars: Record<string, number> = {};
+  for (const name of new Set(sections.map(section => section.sectionName))) {
+    avgSectionChars[name] = Math.round(average(sections.filter(s => s.sectionName === name).map(s => s.characterCount)));
+  }
+
+  return {
+    label: run.label,
+    testPassRate: average(records.map(record => (record.status === 'expected' || record.status === 'flaky' ? 1 : 0))),
+    sectionPassRate: average(sections.map(section => (section.isValid ? 1 : 0))),
+    avgTooltips: average(records.filter(record => record.tooltips).map(record => record.tooltips!.tooltipCount)),
+    avgScore: average(records.filter(record => record.score).map(record => record.score!.overall)),
+    avgSectionChars
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline SVG line chart, one point per run
+ */
+function renderTrendChart(title: string, points: { label: string; value: number }[], format: (value: number) => string): string {
+  const width = 320;
+  const height = 120;
+  const pad = 20;
+  const max = Math.max(1, ...points.map(point => point.value));
+  const step = points.length > 1 ? (width - pad * 2) / (points.length - 1) : 0;
+  const coords = points.map((point, i) => [pad + i * step, height - pad - (point.value / max) * (height - pad * 2)]);
+  const circles = coords
+    .map(([x, y], i) => `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="3"><title>${escapeHtml(points[i].label)}: ${format(points[i].value)}</title></circle>`)
+    .join('');
+  const latest = points.length ? format(points[points.length - 1].value) : 'n/a';
+
+  return `<figure class="chart"><figcaption>${escapeHtml(title)} <strong>${latest}</strong></figcaption>
+<svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
+<polyline fill="none" stroke="#2563eb" stroke-width="2" points="${coords.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}"/>${circles}
+</svg></figure>`;
+}
+
+export function renderDashboard(current: QualityRunSummary, history: QualityRunSummary[]): string {
+  const trend = [...history, current].map(summarizeRun);
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const number = (value: number) => value.toFixed(1);
+
+  const sectionNames = Array.from(new Set(current.records.flatMap(record => (record.sections || []).map(s => s.sectionName))));
+  const charts = [
+    renderTrendChart('Test pass rate', trend.map(p => ({ label: p.label, value: p.testPassRate })), percent),
+    renderTrendChart('Section pass rate', trend.map(p => ({ label: p.label, value: p.sectionPassRate })), percent),
+    renderTrendChart('Avg tooltips per answer', trend.map(p => ({ label: p.label, value: p.avgTooltips })), number),
+    renderTrendChart('Avg quality score', trend.map(p => ({ label: p.label, value: p.avgScore })), number),
+    ...sectionNames.map(name =>
+      renderTrendChart(`Avg ${name} length`, trend.map(p => ({ label: p.label, value: p.avgSectionChars[name] || 0 })), v => `${Math.round(v)} chars`))
+  ].join('\n');
+
+  const rows = current.records
+    .slice()
+    .sort((a, b) => a.query.localeCompare(b.query) || a.project.localeCompare(b.project))
+    .map(record => {
+      const cells = sectionNames.map(name => {
+        const section = (record.sections || []).find(s => s.sectionName === name);
+        if (!section) {
+          return '<td class="na">–</td>';
+        }
+        const title = section.error ? ` title="${escapeHtml(section.error)}"` : '';
+        return `<td class="${section.isValid ? 'pass' : 'fail'}"${title}>${section.characterCount}</td>`;
+      });
+      const tooltips = record.tooltips
+        ? `<td class="${record.tooltips.isValid ? 'pass' : 'fail'}">${record.tooltips.validTooltips}/${record.tooltips.tooltipCount}</td>`
+        : '<td class="na">–</td>';
+      const score = record.score ? `<td>${record.score.overall}</td>` : '<td class="na">–</td>';
+      const failures = record.failures.map(failure => `<li>${escapeHtml(failure)}</li>`).join('');
+      return `<tr><td>${escapeHtml(record.query)}<div class="test">${escapeHtml(record.title)}</div></td><td>${escapeHtml(record.project)}</td>` +
+        `<td class="${record.status === 'expected' || record.status === 'flaky' ? 'pass' : 'fail'}">${escapeHtml(record.status)}</td>` +
+        `${cells.join('')}${tooltips}${score}<td><ul>${failures}</ul></td></tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ThinkPal Quality Dashboard</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+td.pass { background: #ecfdf5; }
+td.fail { background: #fef2f2; }
+td.na { color: #9ca3af; }
+.test { color: #6b7280; font-size: 0.8rem; }
+ul { margin: 0; padding-left: 1rem; }
+.charts { display: flex; flex-wrap: wrap; gap: 1rem; }
+.chart { margin: 0; border: 1px solid #e5e7eb; padding: 0.5rem; }
+circle { fill: #2563eb; }
+</style>
+</head>
+<body>
+<h1>ThinkPal Quality Dashboard</h1>
+<p>Run ${escapeHtml(current.label)}: ${current.records.length} answers validated, compared with ${history.length} previous run(s).</p>
+<h2>Trends</h2>
+<div class="charts">
+${charts}
+</div>
+<h2>Answers</h2>
+<table>
+<thead><tr><th>Query</th><th>Project</th><th>Status</th>${sectionNames.map(name => `<th>${escapeHtml(name)} (chars)</th>`).join('')}<th>Tooltips</th><th>Score</th><th>Failed validations</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Builds a standalone HTML dashboard from the thinkpal-quality annotations of this run,
+ * with trend charts over earlier runs' results.json files kept in historyDir
+ */
+class QualityDashboardReporter implements Reporter {
+  private readonly outputFile: string;
+  private readonly resultsFile: string;
+  private readonly historyDir: string;
+  private readonly maxHistory: number;
+  private readonly records = new Map<string, QualityRecord>();
+  private startTime = new Date();
+
+  constructor(options: QualityDashboardReporterOptions = {}) {
+    this.outputFile = options.outputFile || 'test-results/quality-dashboard.html';
+    this.resultsFile = options.resultsFile || 'test-results/results.json';
+    this.historyDir = options.historyDir || 'quality-history';
+    this.maxHistory = options.maxHistory || 20;
+  }
+
+  onBegin(_config: FullConfig): void {
+    this.records.clear();
+    this.startTime = new Date();
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const data = readQualityAnnotations([...test.annotations, ...(result.annotations || [])]);
+    if (!data) {
+      return;
+    }
+    this.records.set(test.id, {
+      ...data,
+      title: test.title,
+      project: test.parent.project()?.name || 'default',
+      status: test.outcome(),
+      failures: failuresOf(data, result.error?.message)
+    });
+  }
+
+  private loadHistory(): QualityRunSummary[] {
+    if (!fs.existsSync(this.historyDir)) {
+      return [];
+    }
+    return fs.readdirSync(this.historyDir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .slice(-this.maxHistory)
+      .flatMap(file => {
+        try {
+          return [{ label: file.replace(/^results-|\.json$/g, ''), records: readResultsFile(path.join(this.historyDir, file)) }];
+        } catch (error) {
+          console.log(`⚠️ Skipping unreadable history file ${file}: ${error}`);
+          return [];
+        }
+      })
+      .filter(run => run.records.length > 0);
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.records.size === 0) {
+      return;
+    }
+
+    const label = this.startTime.toISOString().replace(/[:.]/g, '-');
+    const history = this.loadHistory();
+    const html = renderDashboard({ label, records: Array.from(this.records.values()) }, history);
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, html);
+    console.log(`📊 Quality dashboard saved to ${this.outputFile} (${this.records.size} answers, ${history.length} previous runs)`);
+
+    // The JSON reporter runs before this one, so this run's results.json is complete
+    if (fs.existsSync(this.resultsFile)) {
+      fs.mkdirSync(this.historyDir, { recursive: true });
+      fs.copyFileSync(this.resultsFile, path.join(this.historyDir, `results-${label}.json`));
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default QualityDashboardReporter;
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase, FullConfig } from '@playwright/test/reporter';
+import { CORPUS_TAGS_ANNOTATION } from '../helpers/query-corpus';
+
+export interface CorpusCategoryStats {
+  tag: string;
+  project: string;
+  total: number;
+  passed: number;
+  passRate: number;
+}
+
+interface QueryCorpusReporterOptions {
+  outputFile?: string;
+}
+
+/**
+ * Prints a pass-rate table per corpus tag and browser project
+ * Only corpus tests (those carrying the corpus-tags annotation) are counted
+ */
+class QueryCorpusReporter implements Reporter {
+  private readonly outputFile: string;
+  private readonly tests = new Map<string, TestCase>();
+
+  constructor(options: QueryCorpusReporterOptions = {}) {
+    this.outputFile = options.outputFile || 'test-results/query-corpus-summary.json';
+  }
+
+  onBegin(_config: FullConfig): void {
+    this.tests.clear();
+  }
+
+  onTestEnd(test: TestCase): void {
+    this.tests.set(test.id, test);
+  }
+
+  onEnd(): void {
+    const stats = new Map<string, CorpusCategoryStats>();
+
+    for (const test of this.tests.values()) {
+      const annotation = test.annotations.find(a => a.type === CORPUS_TAGS_ANNOTATION);
+      if (!annotation || !annotation.description || test.outcome() === 'skipped') {
+        continue;
+      }
+
+      const project = test.parent.project()?.name || 'default';
+      const passed = test.outcome() === 'expected' || test.outcome() === 'flaky';
+      for (const tag of annotation.description.split(',')) {
+        const key = `${tag}|${project}`;
+        const entry = stats.get(key) || { tag, project, total: 0, passed: 0, passRate: 0 };
+        entry.total++;
+        entry.passed += passed ? 1 : 0;
+        entry.passRate = entry.passed / entry.total;
+        stats.set(key, entry);
+      }
+    }
+
+    if (stats.size === 0) {
+      return;
+    }
+
+    const rows = Array.from(stats.values()).sort((a, b) => a.tag.localeCompare(b.tag) || a.project.localeCompare(b.project));
+    const tagWidth = Math.max(8, ...rows.map(row => row.tag.length));
+    const projectWidth = Math.max(7, ...rows.map(row => row.project.length));
+
+    console.log('\n📊 Query corpus pass rate by category');
+    console.log(`${'Category'.padEnd(tagWidth)}  ${'Project'.padEnd(projectWidth)}  Passed  Rate`);
+    for (const row of rows) {
+      const marker = row.passRate === 1 ? '✅' : row.passRate >= 0.5 ? '⚠️' : '❌';
+      const passed = `${row.passed}/${row.total}`.padStart(6);
+      const rate = `${Math.round(row.passRate * 100)}%`.padStart(4);
+      console.log(`${row.tag.padEnd(tagWidth)}  ${row.project.padEnd(projectWidth)}  ${passed}  ${rate} ${marker}`);
+    }
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(rows, null, 2) + '\n');
+    console.log(`💾 Corpus summary saved to ${this.outputFile}`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default QueryCorpusReporter;
@@ -0,0 +1,42 @@
+import { test, expect } from './fixtures';
+import { getScreenshotOptions, holdMockAnswer } from './helpers/visual-regression';
+
+// The answer always comes from the configured mock fixture, so the query only needs to be stable
+const VISUAL_QUERY = 'How do I plan production under tariff uncertainty?';
+
+// Screenshot baselines per browser project, stored in tests/visual/__screenshots__/<project>/
+// Approve intended layout changes with: npm run test:visual:update
+test.describe('ThinkPal Visual Regression', () => {
+  test('empty state', async ({ page, decisionCoach }, testInfo) => {
+    await decisionCoach.goto();
+    await expect(decisionCoach.queryInput).toBeVisible();
+
+    await expect(page).toHaveScreenshot('empty-state.png', getScreenshotOptions(page, 'empty', testInfo.project.name));
+  });
+
+  test('loading state', async ({ page, decisionCoach }, testInfo) => {
+    await decisionCoach.goto();
+    const held = await holdMockAnswer(page);
+
+    // Release the held answer even when the screenshot fails, so no route is left pending
+    try {
+      await decisionCoach.askQuery(VISUAL_QUERY);
+      await held.requested;
+
+      await expect(page).toHaveScreenshot('loading-state.png', getScreenshotOptions(page, 'loading', testInfo.project.name));
+    } finally {
+      held.release();
+    }
+  });
+
+  test('rendered mock answer', async ({ page, decisionCoach }, testInfo) => {
+    await decisionCoach.goto();
+    const held = await holdMockAnswer(page);
+    held.release();
+
+    await decisionCoach.askAndWait(VISUAL_QUERY);
+    await expect(decisionCoach.getSection('strategy')).toBeVisible();
+
+    await expect(page).toHaveScreenshot('answer-state.png', getScreenshotOptions(page, 'answer', testInfo.project.name));
+  });
+});